@@ -0,0 +1,331 @@
+/**
+ * Backtest the prediction model against labelled rider reports
+ *
+ * Replays stored weather history day by day against a fixture set of trails
+ * and predicts each trail at the moment of every historical condition report,
+ * using only weather known by then: hours up to the report and whole days
+ * before it (no reports are blended in, since they are the labels). Prints a
+ * confusion matrix, per-class precision/recall and how well `confidence`
+ * matches the observed hit rate. Runs fully offline from JSON fixtures, so a
+ * model change can be gated on it.
+ *
+ * Fixtures (see scripts/backtest/fixtures):
+ *   trails.json   { trails: [...] }                   trail rows (model fields)
+ *   weather.json  { cells: [...], daily: [...], hourly?: [...] }
+ *                 weather_grid_cells, weather_cache and weather_hourly rows
+ *   reports.json  { reports: [...] }                  condition_reports rows
+ *
+ * Usage: npx tsx scripts/backtest/run-backtest.ts [--fixtures dir] [--min-accuracy 0.7] [--output results.json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReportCondition, TrailCondition, WeatherDay, WeatherHour } from '../../src/lib/types';
+import {
+  ModelTrail,
+  RegionWeather,
+  localDate,
+  predictTrailCondition,
+  stationsFromCells,
+  trailWeather,
+} from '../../src/lib/model';
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Confidence buckets for calibration (lower bounds, percent)
+const CONFIDENCE_BUCKETS = [0, 50, 60, 70, 80, 90];
+
+// What riders can tell apart; model conditions are collapsed onto these
+type OutcomeClass = 'rideable' | 'muddy' | 'snow';
+const CLASSES: OutcomeClass[] = ['rideable', 'muddy', 'snow'];
+type PredictedClass = OutcomeClass | 'unknown';
+const PREDICTED_CLASSES: PredictedClass[] = [...CLASSES, 'unknown'];
+
+const REPORT_CLASS: Record<ReportCondition, OutcomeClass> = {
+  dry: 'rideable',
+  tacky: 'rideable',
+  muddy: 'muddy',
+  snow: 'snow',
+};
+
+const PREDICTION_CLASS: Record<TrailCondition, PredictedClass> = {
+  rideable: 'rideable',
+  likely_rideable: 'rideable',
+  likely_muddy: 'muddy',
+  muddy: 'muddy',
+  snow: 'snow',
+  freeze_thaw: 'snow',
+  unknown: 'unknown',
+};
+
+type FixtureTrail = ModelTrail & { id: number; name: string };
+
+interface Fixtures {
+  trails: FixtureTrail[];
+  cells: Array<{ id: string; lat: number; lon: number; elevation_m: number | null }>;
+  daily: Array<WeatherDay & { cell_id: string }>;
+  hourly: Array<WeatherHour & { cell_id: string }>;
+  reports: Array<{ trail_id: number; condition: ReportCondition; reported_at: string }>;
+}
+
+interface Options {
+  fixturesDir: string;
+  minAccuracy: number | null;
+  output: string | null;
+}
+
+interface Outcome {
+  trail_id: number;
+  reported_at: string;
+  reported: OutcomeClass;
+  predicted: PredictedClass;
+  condition: TrailCondition;
+  confidence: number;
+}
+
+interface ClassStats {
+  precision: number | null; // null when the class was never predicted
+  recall: number | null;    // null when the class was never reported
+  predicted: number;
+  reported: number;
+}
+
+interface CalibrationBucket {
+  range: string;
+  count: number;
+  mean_confidence: number;
+  hit_rate: number;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { fixturesDir: DEFAULT_FIXTURES_DIR, minAccuracy: null, output: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--fixtures') {
+      options.fixturesDir = path.resolve(argv[++i]);
+    } else if (argv[i] === '--min-accuracy') {
+      options.minAccuracy = parseFloat(argv[++i]);
+    } else if (argv[i] === '--output') {
+      options.output = path.resolve(argv[++i]);
+    }
+  }
+  if (options.minAccuracy !== null && !(options.minAccuracy >= 0 && options.minAccuracy <= 1)) {
+    console.error('--min-accuracy must be between 0 and 1');
+    process.exit(1);
+  }
+  return options;
+}
+
+// Load the fixture files
+function loadFixtures(dir: string): Fixtures {
+  const read = (file: string) => {
+    const filePath = path.join(dir, file);
+    if (!fs.existsSync(filePath)) {
+      console.error(`Fixture not found: ${filePath}`);
+      process.exit(1);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  };
+
+  const { trails } = read('trails.json');
+  const { cells, daily, hourly } = read('weather.json');
+  const { reports } = read('reports.json');
+  return { trails, cells, daily, hourly: hourly ?? [], reports };
+}
+
+// Weather as it stood when a report was made: hours up to that moment, and
+// only the days before it, since a day's totals include hours still to come
+function weatherUpTo(weather: RegionWeather, at: Date): RegionWeather {
+  const today = localDate(at);
+  return {
+    ...weather,
+    daily: weather.daily.filter((d) => d.date < today),
+    hourly: (weather.hourly ?? []).filter((h) => Date.parse(h.time) <= at.getTime()),
+  };
+}
+
+// Predict every report, stepping through the report days in order
+function replay(fixtures: Fixtures): { outcomes: Outcome[]; skipped: number } {
+  const stations = stationsFromCells(fixtures.cells);
+  const cellWeather: Record<string, RegionWeather> = {};
+  for (const { cell_id, ...day } of fixtures.daily) {
+    if (stations[cell_id]) (cellWeather[cell_id] ??= { daily: [], hourly: [] }).daily.push(day);
+  }
+  for (const { cell_id, ...hour } of fixtures.hourly) {
+    if (stations[cell_id]) (cellWeather[cell_id] ??= { daily: [], hourly: [] }).hourly!.push(hour);
+  }
+
+  const trailsById = new Map(fixtures.trails.map((t) => [t.id, t]));
+  const weatherByTrail = new Map<number, RegionWeather | null>();
+
+  // Group reports by local day
+  const reportsByDay = new Map<string, Fixtures['reports']>();
+  for (const report of fixtures.reports) {
+    const day = localDate(new Date(report.reported_at));
+    reportsByDay.set(day, [...(reportsByDay.get(day) ?? []), report]);
+  }
+
+  const outcomes: Outcome[] = [];
+  let skipped = 0;
+
+  for (const day of [...reportsByDay.keys()].sort()) {
+    for (const report of reportsByDay.get(day)!) {
+      const trail = trailsById.get(report.trail_id);
+      if (!trail) {
+        skipped++;
+        continue;
+      }
+      if (!weatherByTrail.has(trail.id)) {
+        weatherByTrail.set(trail.id, trailWeather(trail, cellWeather, stations));
+      }
+      const weather = weatherByTrail.get(trail.id);
+      if (!weather) {
+        skipped++;
+        continue;
+      }
+
+      const at = new Date(report.reported_at);
+      const prediction = predictTrailCondition(trail, weatherUpTo(weather, at), {
+        now: at,
+        forecastDays: 0,
+      });
+      outcomes.push({
+        trail_id: trail.id,
+        reported_at: report.reported_at,
+        reported: REPORT_CLASS[report.condition],
+        predicted: PREDICTION_CLASS[prediction.condition],
+        condition: prediction.condition,
+        confidence: prediction.confidence,
+      });
+    }
+  }
+
+  return { outcomes, skipped };
+}
+
+// Reported class (rows) by predicted class (columns)
+function confusionMatrix(outcomes: Outcome[]): Record<OutcomeClass, Record<PredictedClass, number>> {
+  const matrix = {} as Record<OutcomeClass, Record<PredictedClass, number>>;
+  for (const reported of CLASSES) {
+    matrix[reported] = { rideable: 0, muddy: 0, snow: 0, unknown: 0 };
+  }
+  for (const o of outcomes) matrix[o.reported][o.predicted]++;
+  return matrix;
+}
+
+function classStats(outcomes: Outcome[]): Record<OutcomeClass, ClassStats> {
+  const stats = {} as Record<OutcomeClass, ClassStats>;
+  for (const cls of CLASSES) {
+    const predicted = outcomes.filter((o) => o.predicted === cls).length;
+    const reported = outcomes.filter((o) => o.reported === cls).length;
+    const hits = outcomes.filter((o) => o.predicted === cls && o.reported === cls).length;
+    stats[cls] = {
+      precision: predicted > 0 ? hits / predicted : null,
+      recall: reported > 0 ? hits / reported : null,
+      predicted,
+      reported,
+    };
+  }
+  return stats;
+}
+
+// Observed hit rate per confidence bucket, and the count-weighted mean gap
+// between stated confidence and hit rate (expected calibration error)
+function confidenceCalibration(outcomes: Outcome[]): { buckets: CalibrationBucket[]; ece: number } {
+  const buckets: CalibrationBucket[] = [];
+  let ece = 0;
+
+  CONFIDENCE_BUCKETS.forEach((low, i) => {
+    const high = CONFIDENCE_BUCKETS[i + 1] ?? 101;
+    const inBucket = outcomes.filter((o) => o.confidence >= low && o.confidence < high);
+    if (inBucket.length === 0) return;
+
+    const meanConfidence = inBucket.reduce((sum, o) => sum + o.confidence, 0) / inBucket.length / 100;
+    const hitRate = inBucket.filter((o) => o.predicted === o.reported).length / inBucket.length;
+    buckets.push({
+      range: `${low}-${Math.min(high, 100)}%`,
+      count: inBucket.length,
+      mean_confidence: meanConfidence,
+      hit_rate: hitRate,
+    });
+    ece += (inBucket.length / outcomes.length) * Math.abs(meanConfidence - hitRate);
+  });
+
+  return { buckets, ece };
+}
+
+function pct(value: number | null): string {
+  return value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+// Main function
+function backtest(): void {
+  console.log('📈 Model Backtest');
+  console.log('=================\n');
+
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = loadFixtures(options.fixturesDir);
+  console.log(`Fixtures: ${options.fixturesDir}`);
+  console.log(`  ${fixtures.trails.length} trails, ${fixtures.cells.length} cells, ${fixtures.daily.length} weather days, ${fixtures.reports.length} reports\n`);
+
+  const { outcomes, skipped } = replay(fixtures);
+  if (skipped > 0) {
+    console.log(`Skipped ${skipped} reports with no trail or weather\n`);
+  }
+  if (outcomes.length === 0) {
+    console.error('No reports could be replayed');
+    process.exit(1);
+  }
+
+  const correct = outcomes.filter((o) => o.predicted === o.reported).length;
+  const accuracy = correct / outcomes.length;
+  const matrix = confusionMatrix(outcomes);
+  const perClass = classStats(outcomes);
+  const calibration = confidenceCalibration(outcomes);
+
+  console.log('Confusion matrix (rows: reported, columns: predicted):');
+  console.log(`  ${''.padEnd(10)}${PREDICTED_CLASSES.map((c) => c.padStart(10)).join('')}`);
+  for (const reported of CLASSES) {
+    console.log(`  ${reported.padEnd(10)}${PREDICTED_CLASSES.map((c) => String(matrix[reported][c]).padStart(10)).join('')}`);
+  }
+
+  console.log('\nPer class:');
+  console.log(`  ${''.padEnd(10)} precision    recall  predicted  reported`);
+  for (const cls of CLASSES) {
+    const s = perClass[cls];
+    console.log(`  ${cls.padEnd(10)}    ${pct(s.precision)}    ${pct(s.recall)}  ${String(s.predicted).padStart(9)}  ${String(s.reported).padStart(8)}`);
+  }
+
+  console.log('\nConfidence calibration:');
+  console.log(`  ${'bucket'.padEnd(10)} count  stated   observed`);
+  for (const b of calibration.buckets) {
+    console.log(`  ${b.range.padEnd(10)} ${String(b.count).padStart(5)}  ${pct(b.mean_confidence)}  ${pct(b.hit_rate)}`);
+  }
+  console.log(`  Expected calibration error: ${(calibration.ece * 100).toFixed(1)} pts`);
+
+  console.log(`\nAccuracy: ${(accuracy * 100).toFixed(1)}% (${correct}/${outcomes.length})`);
+
+  if (options.output) {
+    fs.writeFileSync(options.output, JSON.stringify({
+      generated_at: new Date().toISOString(),
+      fixtures: options.fixturesDir,
+      accuracy,
+      correct,
+      total: outcomes.length,
+      skipped,
+      confusion_matrix: matrix,
+      per_class: perClass,
+      calibration,
+      outcomes,
+    }, null, 2));
+    console.log(`Output: ${options.output}`);
+  }
+
+  if (options.minAccuracy !== null && accuracy < options.minAccuracy) {
+    console.error(`\n✗ Accuracy below the ${(options.minAccuracy * 100).toFixed(1)}% gate`);
+    process.exit(1);
+  }
+  console.log('\n✅ Backtest complete');
+}
+
+// Run
+backtest();
@@ -0,0 +1,358 @@
+/**
+ * Calibrate dry-time coefficients from rider reports
+ *
+ * Replays the model at the time of each past condition report and fits
+ * per-drainage-class base dry hours and per-aspect modifiers so predictions
+ * agree with what riders saw. The most recent reports are held out to check
+ * the fit. Every run writes a new versioned set to model_coefficients and
+ * prints accuracy before and after; the set only becomes active with
+ * --promote (and only if held-out accuracy did not drop).
+ *
+ * Usage: npx tsx scripts/calibration/calibrate-coefficients.ts [--days 90] [--promote]
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { Trail, WEATHER_DAY_COLUMNS, WEATHER_HOUR_COLUMNS, WeatherDay, WeatherHour } from '../../src/lib/types';
+import {
+  AccuracyStats,
+  CalibrationSample,
+  CoefficientRow,
+  DEFAULT_COEFFICIENTS,
+  DryTimeCoefficients,
+  RegionWeather,
+  WEATHER_HISTORY_DAYS,
+  coefficientsFromRow,
+  fitCoefficients,
+  localDate,
+  scoreCoefficients,
+  stationsFromCells,
+  trailWeather,
+} from '../../src/lib/model';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Configuration
+const DEFAULT_HISTORY_DAYS = 90;  // Reports used for fitting
+const HOLDOUT_SHARE = 0.2;        // Most recent share of reports kept out of the fit
+const MIN_REPORTS = 20;           // Too few reports to fit anything useful
+const PAGE_SIZE = 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface Options {
+  days: number;
+  promote: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { days: DEFAULT_HISTORY_DAYS, promote: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--days') {
+      options.days = parseInt(argv[++i], 10);
+    } else if (argv[i] === '--promote') {
+      options.promote = true;
+    }
+  }
+  if (!Number.isFinite(options.days) || options.days <= 0) {
+    console.error('--days must be a positive number');
+    process.exit(1);
+  }
+  return options;
+}
+
+// Create Supabase client
+function createSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error('Missing Supabase environment variables');
+    process.exit(1);
+  }
+
+  return createClient(url, key);
+}
+
+// Fetch every row of a query (Supabase defaults to a 1000 row limit)
+async function fetchAll<T>(
+  label: string,
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  let rows: T[] = [];
+  let offset = 0;
+  while (true) {
+    const { data: batch, error } = await query(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      console.error(`Error fetching ${label}:`, error.message);
+      process.exit(1);
+    }
+    if (!batch || batch.length === 0) break;
+    rows = rows.concat(batch);
+    if (batch.length < PAGE_SIZE) break;
+    offset += PAGE_SIZE;
+  }
+  return rows;
+}
+
+// Currently active coefficient set, or the built-in defaults
+async function loadActiveCoefficients(supabase: SupabaseClient): Promise<DryTimeCoefficients> {
+  const { data, error } = await supabase
+    .from('model_coefficients')
+    .select('version, base_dry_hours, aspect_modifiers')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching active coefficients:', error.message);
+    process.exit(1);
+  }
+  return data ? coefficientsFromRow(data as CoefficientRow) : DEFAULT_COEFFICIENTS;
+}
+
+function formatAccuracy(stats: AccuracyStats): string {
+  return `${(stats.accuracy * 100).toFixed(1)}% (${stats.correct}/${stats.total})`;
+}
+
+function formatChange(before: AccuracyStats, after: AccuracyStats): string {
+  const delta = (after.accuracy - before.accuracy) * 100;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)} pts`;
+}
+
+// Main function
+async function calibrate(): Promise<void> {
+  console.log('🎯 Coefficient Calibration');
+  console.log('==========================\n');
+
+  const options = parseArgs(process.argv.slice(2));
+  const supabase = createSupabaseClient();
+  console.log('Connected to Supabase\n');
+
+  const now = new Date();
+  const since = new Date(now.getTime() - options.days * MS_PER_DAY);
+  const weatherSince = new Date(since.getTime() - WEATHER_HISTORY_DAYS * MS_PER_DAY);
+
+  // Current coefficients are the baseline to beat
+  const current = await loadActiveCoefficients(supabase);
+  console.log(`Baseline: ${current.version === null ? 'built-in defaults' : `version ${current.version}`}\n`);
+
+  // Reports (snow reports say nothing about dry time)
+  console.log(`Fetching reports from the last ${options.days} days...`);
+  const reports = await fetchAll<{ trail_id: number; condition: string; reported_at: string }>(
+    'reports',
+    (from, to) => supabase
+      .from('condition_reports')
+      .select('trail_id, condition, reported_at')
+      .gte('reported_at', since.toISOString())
+      .neq('condition', 'snow')
+      .order('reported_at', { ascending: true })
+      .range(from, to)
+  );
+  console.log(`Loaded ${reports.length} reports\n`);
+
+  if (reports.length < MIN_REPORTS) {
+    console.log(`Need at least ${MIN_REPORTS} reports to calibrate, skipping.`);
+    return;
+  }
+
+  // Trails that were reported on
+  console.log('Fetching trails...');
+  const trailIds = [...new Set(reports.map((r) => r.trail_id))];
+  const trailsById: Record<number, Trail> = {};
+  for (let i = 0; i < trailIds.length; i += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('trails')
+      .select('*')
+      .in('id', trailIds.slice(i, i + PAGE_SIZE));
+    if (error) {
+      console.error('Error fetching trails:', error.message);
+      process.exit(1);
+    }
+    for (const trail of data || []) trailsById[trail.id] = trail;
+  }
+  console.log(`Loaded ${Object.keys(trailsById).length} trails\n`);
+
+  // Weather covering every report's lookback window
+  console.log('Fetching weather history...');
+  const { data: cellRows, error: cellsError } = await supabase
+    .from('weather_grid_cells')
+    .select('id, lat, lon, elevation_m');
+  if (cellsError) {
+    console.error('Error fetching weather grid:', cellsError.message);
+    process.exit(1);
+  }
+  const stations = stationsFromCells(cellRows || []);
+
+  const daily = await fetchAll<WeatherDay & { cell_id: string }>(
+    'weather',
+    (from, to) => supabase
+      .from('weather_cache')
+      .select(`cell_id, ${WEATHER_DAY_COLUMNS}`)
+      .gte('date', weatherSince.toISOString().split('T')[0])
+      // Unique order, so pages neither overlap nor skip rows
+      .order('date', { ascending: true })
+      .order('cell_id', { ascending: true })
+      .range(from, to)
+  );
+  const hourly = await fetchAll<WeatherHour & { cell_id: string }>(
+    'hourly weather',
+    (from, to) => supabase
+      .from('weather_hourly')
+      .select(`cell_id, ${WEATHER_HOUR_COLUMNS}`)
+      .gte('time', weatherSince.toISOString())
+      .lte('time', now.toISOString())
+      .order('time', { ascending: true })
+      .order('cell_id', { ascending: true })
+      .range(from, to)
+  );
+  console.log(`Loaded ${daily.length} daily and ${hourly.length} hourly records\n`);
+
+  const cellWeather: Record<string, RegionWeather> = {};
+  for (const { cell_id, ...day } of daily) {
+    if (stations[cell_id]) (cellWeather[cell_id] ??= { daily: [], hourly: [] }).daily.push(day);
+  }
+  for (const { cell_id, ...hour } of hourly) {
+    if (stations[cell_id]) (cellWeather[cell_id] ??= { daily: [], hourly: [] }).hourly!.push(hour);
+  }
+
+  // Interpolated weather per trail, shared by its reports
+  const weatherByTrail: Record<number, RegionWeather | null> = {};
+
+  // Pair each report with the weather the model would have seen
+  const samples: CalibrationSample[] = [];
+  for (const report of reports) {
+    const trail = trailsById[report.trail_id];
+    if (!trail) continue;
+
+    if (!(trail.id in weatherByTrail)) {
+      weatherByTrail[trail.id] = trailWeather(trail, cellWeather, stations);
+    }
+    const weather = weatherByTrail[trail.id];
+    if (!weather) continue;
+    const at = new Date(report.reported_at);
+    const start = new Date(at.getTime() - WEATHER_HISTORY_DAYS * MS_PER_DAY);
+    // Whole days before the report only, as in the backtest: a day's totals
+    // include hours after the report was posted
+    const startDate = localDate(start);
+    const reportDate = localDate(at);
+
+    const hours = (weather.hourly || []).filter((h) => {
+      const t = new Date(h.time).getTime();
+      return t >= start.getTime() && t <= at.getTime();
+    });
+    if (hours.length === 0) continue;
+
+    samples.push({
+      trail,
+      reported_at: report.reported_at,
+      condition: report.condition as CalibrationSample['condition'],
+      weather: {
+        daily: weather.daily.filter((d) => d.date >= startDate && d.date < reportDate),
+        hourly: hours,
+        elevation_m: weather.elevation_m,
+      },
+    });
+  }
+  console.log(`Built ${samples.length} samples with weather coverage`);
+
+  if (samples.length < MIN_REPORTS) {
+    console.log(`Need at least ${MIN_REPORTS} samples to calibrate, skipping.`);
+    return;
+  }
+
+  // Hold out the most recent reports (samples are in report order)
+  const holdoutCount = Math.floor(samples.length * HOLDOUT_SHARE);
+  const fitSamples = samples.slice(0, samples.length - holdoutCount);
+  const holdoutSamples = samples.slice(samples.length - holdoutCount);
+  console.log(`  Fitting on ${fitSamples.length}, holding out ${holdoutSamples.length}\n`);
+
+  // Fit
+  console.log('Fitting coefficients...');
+  const fitted = fitCoefficients(fitSamples, current);
+
+  const fitBefore = scoreCoefficients(fitSamples, current);
+  const fitAfter = scoreCoefficients(fitSamples, fitted);
+  const holdoutBefore = scoreCoefficients(holdoutSamples, current);
+  const holdoutAfter = scoreCoefficients(holdoutSamples, fitted);
+
+  console.log('\nAccuracy (model condition agrees with rider report):');
+  console.log(`  Fit set:     ${formatAccuracy(fitBefore)} → ${formatAccuracy(fitAfter)}  ${formatChange(fitBefore, fitAfter)}`);
+  console.log(`  Holdout set: ${formatAccuracy(holdoutBefore)} → ${formatAccuracy(holdoutAfter)}  ${formatChange(holdoutBefore, holdoutAfter)}`);
+
+  console.log('\nBase dry hours:');
+  for (const [drainage, hours] of Object.entries(fitted.base_dry_hours)) {
+    const before = current.base_dry_hours[drainage as keyof typeof current.base_dry_hours];
+    const marker = hours !== before ? ' *' : '';
+    console.log(`  ${drainage}: ${before} → ${hours}${marker}`);
+  }
+  console.log('\nAspect modifiers:');
+  for (const [aspect, modifier] of Object.entries(fitted.aspect_modifiers)) {
+    const before = current.aspect_modifiers[aspect as keyof typeof current.aspect_modifiers];
+    const marker = modifier !== before ? ' *' : '';
+    console.log(`  ${aspect}: ${before} → ${modifier}${marker}`);
+  }
+
+  // Store the new set as the next version
+  const { data: latest, error: latestError } = await supabase
+    .from('model_coefficients')
+    .select('version')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) {
+    console.error('Error fetching latest version:', latestError.message);
+    process.exit(1);
+  }
+  const version = (latest?.version ?? 0) + 1;
+
+  const promote = options.promote && holdoutAfter.accuracy >= holdoutBefore.accuracy;
+  const { error: insertError } = await supabase.from('model_coefficients').insert({
+    version,
+    base_dry_hours: fitted.base_dry_hours,
+    aspect_modifiers: fitted.aspect_modifiers,
+    sample_count: fitSamples.length,
+    holdout_count: holdoutSamples.length,
+    fit_accuracy_before: fitBefore.accuracy,
+    fit_accuracy_after: fitAfter.accuracy,
+    holdout_accuracy_before: holdoutBefore.accuracy,
+    holdout_accuracy_after: holdoutAfter.accuracy,
+    based_on_version: current.version,
+  });
+  if (insertError) {
+    console.error('Error saving coefficients:', insertError.message);
+    process.exit(1);
+  }
+  console.log(`\n💾 Saved coefficient set version ${version}`);
+
+  if (options.promote && !promote) {
+    console.log('⚠️  Held-out accuracy dropped, not promoting');
+  } else if (promote) {
+    // Only one set may be active at a time
+    const { error: deactivateError } = await supabase
+      .from('model_coefficients')
+      .update({ is_active: false })
+      .eq('is_active', true);
+    if (deactivateError) {
+      console.error('Error deactivating previous set:', deactivateError.message);
+      process.exit(1);
+    }
+
+    const { error: activateError } = await supabase
+      .from('model_coefficients')
+      .update({ is_active: true, activated_at: now.toISOString() })
+      .eq('version', version);
+    if (activateError) {
+      console.error('Error promoting coefficients:', activateError.message);
+      process.exit(1);
+    }
+    console.log(`✅ Version ${version} is now active`);
+  } else {
+    console.log('Run with --promote to make a fitted set active');
+  }
+}
+
+// Run
+calibrate().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,449 @@
+/**
+ * Backfill historical weather
+ *
+ * The daily job only refreshes the past week, so calibration and history
+ * charts have little to work with. This fills weather_cache (and
+ * weather_hourly) for a date range and a selection of weather grid cells
+ * from a historical provider, Open-Meteo's archive by default, in chunks of
+ * days. Progress is saved after every chunk, so an interrupted run picks up
+ * where it stopped when started again with the same options.
+ *
+ * Existing data is never overwritten without --force: complete daily rows
+ * are left alone, missing values in partial rows are filled in, and hours
+ * already stored are skipped. Written rows are stamped backfilled_at rather
+ * than fetched_at, so a backfill never makes a cell look freshly fetched.
+ *
+ * Cells default to every active grid cell; narrow them with --cells (grid
+ * cell ids), --region (a map region, see src/lib/predictions.ts) or --bbox.
+ *
+ * Usage: npx tsx scripts/daily/backfill-weather.ts --start 2024-10-01 [--end 2025-05-31]
+ *          [--cells g39.750_-105.250,...] [--region boulder] [--bbox minLat,minLon,maxLat,maxLon]
+ *          [--provider open-meteo-archive] [--chunk-days 30] [--force]
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { localDate } from '../../src/lib/model';
+import { REGIONS, RegionBounds } from '../../src/lib/predictions';
+import { WeatherDay } from '../../src/lib/types';
+import { DateRange, WeatherLocation, WeatherProvider, createProviders, fetchWithFallback } from './weather-providers';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+const PROGRESS_FILE = path.join(__dirname, '../../data/enriched/weather_backfill_progress.json');
+
+// Configuration
+const DEFAULT_PROVIDER = 'open-meteo-archive';
+const DEFAULT_CHUNK_DAYS = 30;
+const ARCHIVE_LAG_DAYS = 6; // the archive trails real time by about five days
+const UPSERT_BATCH_SIZE = 1000;
+const PAGE_SIZE = 1000;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Daily values that count as data; a row with all of them is complete
+const DAILY_FIELDS = [
+  'precipitation_mm',
+  'temp_max_c',
+  'temp_min_c',
+  'humidity_pct',
+  'rain_mm',
+  'showers_mm',
+  'snowfall_cm',
+  'precipitation_hours',
+  'shortwave_radiation_mj',
+  'wind_speed_mean_kmh',
+  'vpd_max_kpa',
+] as const;
+
+interface Options {
+  start: string;
+  end: string;
+  cells: string[] | null;
+  bounds: RegionBounds | null;
+  providerSpec: string;
+  chunkDays: number;
+  force: boolean;
+}
+
+interface Progress {
+  key: string;                 // options the progress belongs to
+  lastChunkIndex: number;
+  daysWritten: number;
+  daysSkipped: number;
+  hoursWritten: number;
+  errorCount: number;
+  lastRunTime: string;
+}
+
+type DailyRow = { cell_id: string; date: string; fetched_at: string | null } &
+  { [K in (typeof DAILY_FIELDS)[number]]: number | null };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+// Parse command line options
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    start: '',
+    end: localDate(new Date(Date.now() - ARCHIVE_LAG_DAYS * MS_PER_DAY)),
+    cells: null,
+    bounds: null,
+    providerSpec: DEFAULT_PROVIDER,
+    chunkDays: DEFAULT_CHUNK_DAYS,
+    force: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--start') {
+      options.start = argv[++i];
+    } else if (argv[i] === '--end') {
+      options.end = argv[++i];
+    } else if (argv[i] === '--cells') {
+      options.cells = argv[++i].split(',').map((c) => c.trim()).filter(Boolean);
+    } else if (argv[i] === '--region') {
+      const name = argv[++i];
+      if (!REGIONS[name]) {
+        console.error(`Unknown region "${name}" (expected ${Object.keys(REGIONS).join(', ')})`);
+        process.exit(1);
+      }
+      options.bounds = REGIONS[name];
+    } else if (argv[i] === '--bbox') {
+      const [south, west, north, east] = argv[++i].split(',').map(Number);
+      if ([south, west, north, east].some((v) => !Number.isFinite(v))) {
+        console.error('--bbox must be minLat,minLon,maxLat,maxLon');
+        process.exit(1);
+      }
+      options.bounds = { north, south, east, west };
+    } else if (argv[i] === '--provider') {
+      options.providerSpec = argv[++i];
+    } else if (argv[i] === '--chunk-days') {
+      options.chunkDays = parseInt(argv[++i], 10);
+    } else if (argv[i] === '--force') {
+      options.force = true;
+    }
+  }
+
+  const isDate = (date: string) => DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date));
+  if (!isDate(options.start) || !isDate(options.end)) {
+    console.error('--start (and --end, if given) must be YYYY-MM-DD dates');
+    process.exit(1);
+  }
+  if (options.start > options.end) {
+    console.error(`--start ${options.start} is after --end ${options.end}`);
+    process.exit(1);
+  }
+  if (!(options.chunkDays > 0)) {
+    console.error('--chunk-days must be a positive number');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// Create Supabase client
+function createSupabaseClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error('Missing Supabase environment variables');
+    process.exit(1);
+  }
+
+  return createClient(url, key);
+}
+
+// Load progress, starting over when it belongs to a different run
+function loadProgress(key: string): Progress {
+  try {
+    if (fs.existsSync(PROGRESS_FILE)) {
+      const progress: Progress = JSON.parse(fs.readFileSync(PROGRESS_FILE, 'utf-8'));
+      if (progress.key === key) return progress;
+      console.log('Progress file is for a different backfill, starting over');
+    }
+  } catch {
+    console.log('Could not read progress file, starting over');
+  }
+  return {
+    key,
+    lastChunkIndex: -1,
+    daysWritten: 0,
+    daysSkipped: 0,
+    hoursWritten: 0,
+    errorCount: 0,
+    lastRunTime: new Date().toISOString(),
+  };
+}
+
+// Save progress
+function saveProgress(progress: Progress): void {
+  const dir = path.dirname(PROGRESS_FILE);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(PROGRESS_FILE, JSON.stringify(progress, null, 2));
+}
+
+// Date range split into chunks of at most chunkDays
+function dateChunks(start: string, end: string, chunkDays: number): DateRange[] {
+  const chunks: DateRange[] = [];
+  for (let chunkStart = start; chunkStart <= end; chunkStart = addDays(chunkStart, chunkDays)) {
+    const chunkEnd = addDays(chunkStart, chunkDays - 1);
+    chunks.push({ start: chunkStart, end: chunkEnd < end ? chunkEnd : end });
+  }
+  return chunks;
+}
+
+// Grid cells to backfill (paginated)
+async function loadCells(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  options: Options
+): Promise<WeatherLocation[]> {
+  const cells: WeatherLocation[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('weather_grid_cells')
+      .select('id, lat, lon')
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    // Explicit cell ids may name retired cells; otherwise only active ones
+    query = options.cells ? query.in('id', options.cells) : query.eq('active', true);
+
+    const { data: batch, error } = await query;
+    if (error) {
+      console.error('Error fetching grid cells:', error.message);
+      process.exit(1);
+    }
+    if (!batch || batch.length === 0) break;
+    for (const c of batch) {
+      cells.push({ id: c.id, lat: Number(c.lat), lon: Number(c.lon) });
+    }
+    if (batch.length < PAGE_SIZE) break;
+  }
+
+  const bounds = options.bounds;
+  if (!bounds) return cells;
+  return cells.filter(
+    (c) => c.lat >= bounds.south && c.lat <= bounds.north && c.lon >= bounds.west && c.lon <= bounds.east
+  );
+}
+
+// Existing daily rows for cells in a date range, keyed "cell_id|date"
+async function loadExistingDays(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  cellIds: string[],
+  range: DateRange
+): Promise<Map<string, DailyRow>> {
+  const existing = new Map<string, DailyRow>();
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: batch, error } = await supabase
+      .from('weather_cache')
+      .select(`cell_id, date, fetched_at, ${DAILY_FIELDS.join(', ')}`)
+      .in('cell_id', cellIds)
+      .gte('date', range.start)
+      .lte('date', range.end)
+      // Unique order, so pages neither overlap nor skip rows
+      .order('date', { ascending: true })
+      .order('cell_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    if (!batch || batch.length === 0) break;
+    for (const row of batch as unknown as DailyRow[]) {
+      existing.set(`${row.cell_id}|${row.date}`, row);
+    }
+    if (batch.length < PAGE_SIZE) break;
+  }
+  return existing;
+}
+
+// Daily row to write, or null to leave the stored row alone. Without
+// --force, stored values win and only missing ones are filled. fetched_at
+// is when the daily job last fetched the row, which the freshness check
+// reads, so it is kept as stored (null for rows only ever backfilled).
+function mergeDay(cellId: string, day: WeatherDay, existing: DailyRow | undefined, force: boolean): DailyRow | null {
+  const fetched: DailyRow = {
+    cell_id: cellId,
+    date: day.date,
+    fetched_at: existing?.fetched_at ?? null,
+    precipitation_mm: day.precipitation_mm,
+    temp_max_c: day.temp_max_c,
+    temp_min_c: day.temp_min_c,
+    humidity_pct: day.humidity_pct,
+    rain_mm: day.rain_mm ?? null,
+    showers_mm: day.showers_mm ?? null,
+    snowfall_cm: day.snowfall_cm ?? null,
+    precipitation_hours: day.precipitation_hours ?? null,
+    shortwave_radiation_mj: day.shortwave_radiation_mj ?? null,
+    wind_speed_mean_kmh: day.wind_speed_mean_kmh ?? null,
+    vpd_max_kpa: day.vpd_max_kpa ?? null,
+  };
+  if (!existing || force) return fetched;
+  if (DAILY_FIELDS.every((field) => existing[field] !== null)) return null;
+
+  const merged = { ...fetched };
+  for (const field of DAILY_FIELDS) {
+    merged[field] = existing[field] ?? fetched[field];
+  }
+  return merged;
+}
+
+// Upsert rows in batches, returning the first error message
+async function upsertBatched(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  table: string,
+  rows: object[],
+  onConflict: string,
+  ignoreDuplicates: boolean
+): Promise<string | null> {
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict, ignoreDuplicates });
+    if (error) return error.message;
+  }
+  return null;
+}
+
+// Fetch and store one chunk of days for every cell
+async function backfillChunk(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  providers: WeatherProvider[],
+  cells: WeatherLocation[],
+  range: DateRange,
+  force: boolean,
+  progress: Progress
+): Promise<void> {
+  const results = await fetchWithFallback(providers, cells, range);
+  const existing = await loadExistingDays(supabase, cells.map((c) => c.id), range);
+  const backfilledAt = new Date().toISOString();
+
+  const dailyRecords: object[] = [];
+  const hourlyRecords: object[] = [];
+  let missingCells = 0;
+  cells.forEach((cell, i) => {
+    const result = results[i];
+    if (!result) {
+      progress.errorCount++;
+      missingCells++;
+      return;
+    }
+
+    for (const day of result.weather.days) {
+      const row = mergeDay(cell.id, day, existing.get(`${cell.id}|${day.date}`), force);
+      if (!row) {
+        progress.daysSkipped++;
+        continue;
+      }
+      dailyRecords.push({ ...row, backfilled_at: backfilledAt });
+    }
+
+    for (const hour of result.weather.hours) {
+      hourlyRecords.push({ cell_id: cell.id, ...hour, fetched_at: null, backfilled_at: backfilledAt });
+    }
+  });
+
+  // Stored hours are kept unless forced
+  const dbError =
+    (await upsertBatched(supabase, 'weather_cache', dailyRecords, 'cell_id,date', false)) ||
+    (await upsertBatched(supabase, 'weather_hourly', hourlyRecords, 'cell_id,time', !force));
+  if (dbError) {
+    throw new Error(dbError);
+  }
+
+  progress.daysWritten += dailyRecords.length;
+  progress.hoursWritten += hourlyRecords.length;
+
+  // What did arrive is stored, but the chunk isn't done: a resumed run
+  // fetches it again and fills the gaps
+  if (missingCells > 0) {
+    throw new Error(`no data for ${missingCells} of ${cells.length} cells`);
+  }
+}
+
+// Main function
+async function backfillWeather(): Promise<void> {
+  console.log('🗄️  Weather Backfill');
+  console.log('===================\n');
+
+  const options = parseArgs(process.argv.slice(2));
+  let providers: WeatherProvider[];
+  try {
+    providers = createProviders(options.providerSpec);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const supabase = createSupabaseClient();
+  console.log('Connected to Supabase\n');
+
+  const cells = await loadCells(supabase, options);
+  if (cells.length === 0) {
+    console.error('No grid cells match the selection');
+    process.exit(1);
+  }
+
+  const chunks = dateChunks(options.start, options.end, options.chunkDays);
+  console.log(`${cells.length} cells, ${options.start} to ${options.end} in ${chunks.length} chunks`);
+  console.log(`Provider: ${providers.map((p) => p.name).join(' → ')}${options.force ? ' (--force: overwriting stored data)' : ''}\n`);
+
+  const key = JSON.stringify({
+    start: options.start,
+    end: options.end,
+    cells: cells.map((c) => c.id),
+    force: options.force,
+  });
+  const progress = loadProgress(key);
+  const startChunk = progress.lastChunkIndex + 1;
+  if (startChunk > 0) {
+    console.log(`Resuming from chunk ${startChunk + 1}...\n`);
+  }
+
+  for (let c = startChunk; c < chunks.length; c++) {
+    const range = chunks[c];
+    process.stdout.write(`[${c + 1}/${chunks.length}] ${range.start} – ${range.end} `);
+
+    try {
+      await backfillChunk(supabase, providers, cells, range, options.force, progress);
+    } catch (error) {
+      // Stop here so the next run retries this chunk
+      console.log(`✗ ${(error as Error).message}`);
+      saveProgress(progress);
+      console.log('\nStopped; run again with the same options to resume');
+      process.exit(1);
+    }
+
+    progress.lastChunkIndex = c;
+    progress.lastRunTime = new Date().toISOString();
+    saveProgress(progress);
+    console.log(`✓ ${progress.daysWritten} days written, ${progress.daysSkipped} kept`);
+  }
+
+  // Clean up progress file
+  if (fs.existsSync(PROGRESS_FILE)) {
+    fs.unlinkSync(PROGRESS_FILE);
+  }
+
+  console.log('\n===================');
+  console.log('✅ Backfill complete!');
+  console.log(`\nResults:`);
+  console.log(`  Day records written: ${progress.daysWritten}`);
+  console.log(`  Day records kept (already complete): ${progress.daysSkipped}`);
+  console.log(`  Hour records sent: ${progress.hoursWritten}`);
+  if (progress.errorCount > 0) {
+    console.log(`  Cell-chunks retried after returning no data: ${progress.errorCount}`);
+  }
+}
+
+// Run
+backfillWeather().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
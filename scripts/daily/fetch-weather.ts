@@ -1,54 +1,59 @@
 /**
- * Fetch daily weather data from Open-Meteo
- * 
- * Fetches weather for Colorado Front Range regions and stores in weather_cache.
+ * Fetch daily weather data
+ *
+ * Derives a weather grid from the trail centroids in the trails table
+ * (one point per grid cell that holds trails, at the mean trail centroid),
+ * fetches weather for the cells through the configured providers (see
+ * weather-providers/; Open-Meteo first, NWS for cells it misses), and
+ * stores daily summaries in weather_cache and hourly data in weather_hourly
+ * keyed by cell. Covers the past 7 days plus a 7-day forecast.
  * Called daily by GitHub Actions.
- * 
- * Usage: npx tsx scripts/daily/fetch-weather.ts
+ *
+ * Usage: npx tsx scripts/daily/fetch-weather.ts [--cell-size 0.25] [--provider open-meteo,nws]
  */
 
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { GridCell, WEATHER_GRID_CELL_DEG, buildWeatherGrid, localDate } from '../../src/lib/model';
+import {
+  DEFAULT_PROVIDERS,
+  DateRange,
+  WeatherProvider,
+  createProviders,
+  fetchWithFallback,
+} from './weather-providers';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
 
-// Open-Meteo API (no API key required!)
-const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
-
-// Regions with center coordinates
-const REGIONS: Record<string, { lat: number; lon: number; name: string; elevation_m: number }> = {
-  front_range: { lat: 39.75, lon: -105.2, name: 'Front Range', elevation_m: 1800 },
-  boulder: { lat: 40.015, lon: -105.27, name: 'Boulder', elevation_m: 1655 },
-  golden: { lat: 39.75, lon: -105.22, name: 'Golden', elevation_m: 1730 },
-  denver: { lat: 39.74, lon: -104.99, name: 'Denver', elevation_m: 1609 },
-  colorado_springs: { lat: 38.83, lon: -104.82, name: 'Colorado Springs', elevation_m: 1839 },
-  fort_collins: { lat: 40.58, lon: -105.08, name: 'Fort Collins', elevation_m: 1525 },
-  summit_county: { lat: 39.6, lon: -106.0, name: 'Summit County', elevation_m: 2926 },
-  leadville: { lat: 39.25, lon: -106.29, name: 'Leadville', elevation_m: 3094 },
-  aspen: { lat: 39.19, lon: -106.82, name: 'Aspen', elevation_m: 2438 },
-  durango: { lat: 37.28, lon: -107.88, name: 'Durango', elevation_m: 2003 },
-  steamboat: { lat: 40.48, lon: -106.83, name: 'Steamboat Springs', elevation_m: 2051 },
-  gunnison: { lat: 38.55, lon: -106.93, name: 'Gunnison', elevation_m: 2347 },
-  telluride: { lat: 37.94, lon: -107.81, name: 'Telluride', elevation_m: 2667 },
-};
-
-interface WeatherDay {
-  date: string;
-  precipitation_mm: number;
-  temp_max_c: number;
-  temp_min_c: number;
-  humidity_pct: number;
-}
+// Past days refreshed each run, and forecast horizon stored alongside
+const PAST_DAYS = 7;
+const FORECAST_DAYS = 7;
 
-interface OpenMeteoResponse {
-  daily: {
-    time: string[];
-    precipitation_sum: number[];
-    temperature_2m_max: number[];
-    temperature_2m_min: number[];
-    relative_humidity_2m_mean?: number[];
-  };
+// Configuration
+const CELLS_PER_BATCH = 50;
+const UPSERT_BATCH_SIZE = 1000;
+const PAGE_SIZE = 1000;
+
+// Parse command line options
+function parseArgs(): { cellSize: number; providers: WeatherProvider[] } {
+  const args = process.argv.slice(2);
+  const idx = args.indexOf('--cell-size');
+  const cellSize = idx >= 0 ? parseFloat(args[idx + 1]) : WEATHER_GRID_CELL_DEG;
+
+  if (!Number.isFinite(cellSize) || cellSize <= 0) {
+    console.error('--cell-size must be a positive number of degrees');
+    process.exit(1);
+  }
+
+  const providerIdx = args.indexOf('--provider');
+  const spec = providerIdx >= 0 ? args[providerIdx + 1] : process.env.WEATHER_PROVIDER || DEFAULT_PROVIDERS;
+  try {
+    return { cellSize, providers: createProviders(spec) };
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
 }
 
 // Create Supabase client
@@ -64,47 +69,20 @@ function createSupabaseClient() {
   return createClient(url, key);
 }
 
-// Fetch weather for a region
-async function fetchWeatherForRegion(
-  regionId: string,
-  region: { lat: number; lon: number; name: string }
-): Promise<WeatherDay[]> {
-  const params = new URLSearchParams({
-    latitude: region.lat.toString(),
-    longitude: region.lon.toString(),
-    daily: 'precipitation_sum,temperature_2m_max,temperature_2m_min,relative_humidity_2m_mean',
-    past_days: '7',
-    forecast_days: '1',
-    timezone: 'America/Denver',
-  });
-
-  const url = `${OPEN_METEO_URL}?${params}`;
-  
-  try {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    
-    const data: OpenMeteoResponse = await response.json();
-    
-    const days: WeatherDay[] = [];
-    for (let i = 0; i < data.daily.time.length; i++) {
-      days.push({
-        date: data.daily.time[i],
-        precipitation_mm: data.daily.precipitation_sum[i] ?? 0,
-        temp_max_c: data.daily.temperature_2m_max[i],
-        temp_min_c: data.daily.temperature_2m_min[i],
-        humidity_pct: Math.round(data.daily.relative_humidity_2m_mean?.[i] ?? 50),
-      });
-    }
-    
-    return days;
-  } catch (error) {
-    console.error(`Error fetching weather for ${region.name}:`, error);
-    return [];
+// Upsert rows in batches, returning the first error message
+async function upsertBatched(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  table: string,
+  rows: object[],
+  onConflict: string
+): Promise<string | null> {
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict, ignoreDuplicates: false });
+    if (error) return error.message;
   }
+  return null;
 }
 
 // Main function
@@ -112,77 +90,191 @@ async function fetchWeather(): Promise<void> {
   console.log('🌦️  Weather Fetcher');
   console.log('===================\n');
 
+  const { cellSize, providers } = parseArgs();
   const supabase = createSupabaseClient();
   console.log('Connected to Supabase\n');
 
+  // Trail centroids (paginated)
+  console.log('Fetching trail centroids...');
+  const points: Array<{ lat: number; lon: number }> = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: batch, error } = await supabase
+      .from('trails')
+      .select('centroid_lat, centroid_lon')
+      .eq('open_to_bikes', true)
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching trails:', error.message);
+      process.exit(1);
+    }
+    if (!batch || batch.length === 0) break;
+    for (const t of batch) {
+      points.push({ lat: Number(t.centroid_lat), lon: Number(t.centroid_lon) });
+    }
+    if (batch.length < PAGE_SIZE) break;
+  }
+
+  const cells = buildWeatherGrid(points, cellSize);
+  console.log(`${points.length} trails in ${cells.length} grid cells (${cellSize}° cells)`);
+
+  const now = new Date();
+  const range: DateRange = {
+    start: localDate(new Date(now.getTime() - PAST_DAYS * 24 * 60 * 60 * 1000)),
+    end: localDate(new Date(now.getTime() + (FORECAST_DAYS - 1) * 24 * 60 * 60 * 1000)),
+  };
+  console.log(`${range.start} to ${range.end} from ${providers.map((p) => p.name).join(' → ')}\n`);
+
   let totalDays = 0;
-  let totalRegions = 0;
+  let totalCells = 0;
   const errors: string[] = [];
+  const cellsByProvider: Record<string, number> = {};
+  const totalBatches = Math.ceil(cells.length / CELLS_PER_BATCH);
 
-  for (const [regionId, region] of Object.entries(REGIONS)) {
-    process.stdout.write(`${region.name.padEnd(20)} `);
-    
-    const days = await fetchWeatherForRegion(regionId, region);
-    
-    if (days.length === 0) {
-      console.log('✗ Failed to fetch');
-      errors.push(regionId);
-      continue;
-    }
-    
-    // Upsert weather data
-    const records = days.map((day) => ({
-      region: regionId,
-      date: day.date,
-      precipitation_mm: day.precipitation_mm,
-      temp_max_c: day.temp_max_c,
-      temp_min_c: day.temp_min_c,
-      humidity_pct: day.humidity_pct,
-      fetched_at: new Date().toISOString(),
-    }));
-    
-    const { error } = await supabase
-      .from('weather_cache')
-      .upsert(records, {
-        onConflict: 'region,date',
-        ignoreDuplicates: false,
+  for (let b = 0; b < cells.length; b += CELLS_PER_BATCH) {
+    const batch = cells.slice(b, b + CELLS_PER_BATCH);
+    process.stdout.write(`Batch ${Math.floor(b / CELLS_PER_BATCH) + 1}/${totalBatches} `);
+
+    const results = await fetchWithFallback(providers, batch, range);
+    const fetchedAt = new Date().toISOString();
+
+    // Stored elevations, kept when a provider returns none
+    const { data: storedElevations } = await supabase
+      .from('weather_grid_cells')
+      .select('id, elevation_m')
+      .in('id', batch.map((c) => c.id));
+    const elevationById = new Map<string, number | null>(
+      (storedElevations || []).map((c) => [c.id, c.elevation_m])
+    );
+
+    const cellRecords: object[] = [];
+    const dailyRecords: object[] = [];
+    const hourlyRecords: object[] = [];
+    const fetched: GridCell[] = [];
+
+    batch.forEach((cell, i) => {
+      if (!results[i]) {
+        errors.push(cell.id);
+        return;
+      }
+      const { weather: result, provider } = results[i]!;
+      fetched.push(cell);
+      cellsByProvider[provider] = (cellsByProvider[provider] ?? 0) + 1;
+
+      cellRecords.push({
+        id: cell.id,
+        lat: cell.lat,
+        lon: cell.lon,
+        elevation_m: result.elevation_m ?? elevationById.get(cell.id) ?? null,
+        cell_size_deg: cellSize,
+        trail_count: cell.trail_count,
+        active: true,
+        updated_at: fetchedAt,
       });
-    
-    if (error) {
-      console.log(`✗ DB error: ${error.message}`);
-      errors.push(regionId);
+
+      for (const day of result.days) {
+        dailyRecords.push({
+          cell_id: cell.id,
+          date: day.date,
+          precipitation_mm: day.precipitation_mm,
+          temp_max_c: day.temp_max_c,
+          temp_min_c: day.temp_min_c,
+          humidity_pct: day.humidity_pct,
+          rain_mm: day.rain_mm ?? null,
+          showers_mm: day.showers_mm ?? null,
+          snowfall_cm: day.snowfall_cm ?? null,
+          precipitation_hours: day.precipitation_hours ?? null,
+          shortwave_radiation_mj: day.shortwave_radiation_mj ?? null,
+          wind_speed_mean_kmh: day.wind_speed_mean_kmh ?? null,
+          vpd_max_kpa: day.vpd_max_kpa ?? null,
+          fetched_at: fetchedAt,
+        });
+      }
+
+      // Hourly data for the moisture model
+      for (const hour of result.hours) {
+        hourlyRecords.push({
+          cell_id: cell.id,
+          time: hour.time,
+          precipitation_mm: hour.precipitation_mm,
+          temp_c: hour.temp_c,
+          humidity_pct: hour.humidity_pct,
+          wind_speed_kmh: hour.wind_speed_kmh,
+          rain_mm: hour.rain_mm ?? null,
+          showers_mm: hour.showers_mm ?? null,
+          snowfall_cm: hour.snowfall_cm ?? null,
+          shortwave_radiation_wm2: hour.shortwave_radiation_wm2 ?? null,
+          vpd_kpa: hour.vpd_kpa ?? null,
+          fetched_at: fetchedAt,
+        });
+      }
+    });
+
+    // Cells first so weather rows always have a known location
+    const dbError =
+      (await upsertBatched(supabase, 'weather_grid_cells', cellRecords, 'id')) ||
+      (await upsertBatched(supabase, 'weather_cache', dailyRecords, 'cell_id,date')) ||
+      (await upsertBatched(supabase, 'weather_hourly', hourlyRecords, 'cell_id,time'));
+
+    if (dbError) {
+      console.log(`✗ DB error: ${dbError}`);
+      errors.push(...fetched.map((c) => c.id));
     } else {
-      const precipDays = days.filter((d) => d.precipitation_mm > 0).length;
-      const totalPrecip = days.reduce((sum, d) => sum + d.precipitation_mm, 0);
-      console.log(`✓ ${days.length} days, ${precipDays} wet (${totalPrecip.toFixed(1)}mm total)`);
-      totalDays += days.length;
-      totalRegions++;
+      console.log(`✓ ${fetched.length}/${batch.length} cells, ${dailyRecords.length} days, ${hourlyRecords.length} hours`);
+      totalDays += dailyRecords.length;
+      totalCells += fetched.length;
     }
-    
-    // Small delay between regions
+
+    // Small delay between requests
     await new Promise((r) => setTimeout(r, 100));
   }
 
+  // Retire cells that no longer hold trails (their history is kept)
+  const { data: storedCells } = await supabase
+    .from('weather_grid_cells')
+    .select('id')
+    .eq('active', true);
+  const currentIds = new Set(cells.map((c) => c.id));
+  const retired = (storedCells || []).map((c) => c.id).filter((id) => !currentIds.has(id));
+  if (retired.length > 0) {
+    const { error } = await supabase
+      .from('weather_grid_cells')
+      .update({ active: false })
+      .in('id', retired);
+    if (error) {
+      console.log(`✗ Could not retire ${retired.length} cells: ${error.message}`);
+    }
+  }
+
   console.log('\n===================');
   console.log('✅ Weather fetch complete!');
   console.log(`\nResults:`);
-  console.log(`  Regions updated: ${totalRegions} / ${Object.keys(REGIONS).length}`);
+  console.log(`  Cells updated: ${totalCells} / ${cells.length}`);
+  console.log(`  Cells retired: ${retired.length}`);
+  for (const [provider, count] of Object.entries(cellsByProvider)) {
+    console.log(`  From ${provider}: ${count} cells`);
+  }
   console.log(`  Total day records: ${totalDays}`);
-  
+
   if (errors.length > 0) {
-    console.log(`  Errors: ${errors.join(', ')}`);
+    console.log(`  Errors: ${errors.length} cells (${errors.slice(0, 5).join(', ')}${errors.length > 5 ? ', ...' : ''})`);
+    console.log('  Trails in these cells will be interpolated from their neighbours');
   }
 
-  // Show recent weather for main region
+  // Show recent weather for the cell with the most trails
+  const busiest = [...cells].sort((a, b) => b.trail_count - a.trail_count)[0];
+  if (!busiest) return;
+
   const { data: recent } = await supabase
     .from('weather_cache')
     .select('date, precipitation_mm, temp_max_c')
-    .eq('region', 'front_range')
+    .eq('cell_id', busiest.id)
+    .lte('date', new Date().toISOString().split('T')[0])
     .order('date', { ascending: false })
     .limit(5);
 
   if (recent && recent.length > 0) {
-    console.log(`\nRecent Front Range weather:`);
+    console.log(`\nRecent weather in ${busiest.id} (${busiest.trail_count} trails):`);
     for (const day of recent) {
       const precip = day.precipitation_mm > 0 ? `${day.precipitation_mm}mm 🌧️` : 'dry';
       console.log(`  ${day.date}: ${day.temp_max_c}°C, ${precip}`);
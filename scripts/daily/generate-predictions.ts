@@ -1,8 +1,19 @@
 /**
  * Generate trail condition predictions
  * 
- * Combines trail data (soil, aspect, elevation) with recent weather
- * to predict current trail conditions. Outputs predictions.json.
+ * Combines trail data (soil, aspect, elevation) with hourly weather,
+ * interpolated from the nearest weather grid cells by distance and elevation, to run
+ * a snowpack and soil-moisture model per trail, then carries the model
+ * through the weather forecast for morning/midday/evening windows today and
+ * a 7-day outlook. Trails cut into segments (scripts/etl/segment-trails.ts)
+ * are predicted per segment and rolled up by length, with the worst section
+ * called out. Recent rider reports are blended in with time decay.
+ * Each cell's weather is checked first (missing days, implausible values,
+ * stale fetches): degraded cells lower confidence, and trails that mostly
+ * depend on unusable cells, or have no usable cell at all, are predicted
+ * unknown.
+ * Outputs predictions.json, and archives today's condition per trail in
+ * trail_prediction_history (pruned after HISTORY_RETENTION_DAYS).
  * 
  * Usage: npx tsx scripts/daily/generate-predictions.ts
  */
@@ -11,6 +22,38 @@ import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import {
+  CellQuality,
+  DataQualitySummary,
+  Trail,
+  TrailPrediction,
+  TrailSegment,
+  WEATHER_DAY_COLUMNS,
+  WEATHER_HOUR_COLUMNS,
+  WeatherDay,
+  WeatherHour,
+  WeatherQualityStatus,
+} from '../../src/lib/types';
+import {
+  CoefficientRow,
+  DEFAULT_COEFFICIENTS,
+  FORECAST_DAYS,
+  HISTORY_RETENTION_DAYS,
+  NO_USABLE_WEATHER,
+  REPORT_MAX_AGE_HOURS,
+  RegionWeather,
+  WEATHER_HISTORY_DAYS,
+  TrailReport,
+  checkCellWeather,
+  coefficientsFromRow,
+  hourlyFromDaily,
+  localDate,
+  predictTrailCondition,
+  stationsFromCells,
+  summarizeConditions,
+  trailWeather,
+  weatherBefore,
+} from '../../src/lib/model';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -19,83 +62,6 @@ dotenv.config({ path: '.env.local' });
 const OUTPUT_FILE = path.join(__dirname, '../../public/data/predictions.json');
 const WRITE_TO_SUPABASE = true; // Toggle to write predictions to Supabase
 
-// Types
-type TrailCondition = 'rideable' | 'likely_rideable' | 'likely_muddy' | 'muddy' | 'snow' | 'unknown';
-type Aspect = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
-type DrainageClass = 
-  | 'Excessively drained'
-  | 'Well drained'
-  | 'Moderately well drained'
-  | 'Somewhat poorly drained'
-  | 'Poorly drained'
-  | 'Very poorly drained';
-
-interface Trail {
-  id: number;
-  cotrex_id: string;
-  name: string;
-  centroid_lat: number;
-  centroid_lon: number;
-  elevation_min: number | null;
-  elevation_max: number | null;
-  dominant_aspect: Aspect | null;
-  soil_drainage_class: DrainageClass | null;
-  base_dry_hours: number | null;
-  geometry: object;
-}
-
-interface WeatherDay {
-  date: string;
-  precipitation_mm: number;
-  temp_max_c: number;
-  temp_min_c: number;
-  humidity_pct: number;
-}
-
-interface TrailPrediction {
-  id: number;
-  cotrex_id: string;
-  name: string;
-  centroid_lat: number;
-  centroid_lon: number;
-  condition: TrailCondition;
-  confidence: number;
-  hours_since_rain: number;
-  effective_dry_hours: number;
-  factors: {
-    soil: DrainageClass | null;
-    aspect: Aspect | null;
-    elevation_min: number | null;
-    elevation_max: number | null;
-    recent_precip_mm: number;
-    base_dry_hours: number;
-  };
-  geometry: object;
-}
-
-// Prediction constants
-const BASE_DRY_HOURS: Record<string, number> = {
-  'Excessively drained': 6,
-  'Well drained': 24,
-  'Moderately well drained': 48,
-  'Somewhat poorly drained': 72,
-  'Poorly drained': 120,
-  'Very poorly drained': 168,
-};
-
-const ASPECT_MODIFIERS: Record<Aspect, number> = {
-  'S': 0.6,
-  'SE': 0.7,
-  'SW': 0.7,
-  'E': 0.85,
-  'W': 0.85,
-  'NE': 1.1,
-  'NW': 1.1,
-  'N': 1.3,
-};
-
-const PRECIP_THRESHOLD_MM = 2.5; // Significant rain threshold
-
 // Create Supabase client
 function createSupabaseClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -109,157 +75,6 @@ function createSupabaseClient() {
   return createClient(url, key);
 }
 
-// Get nearest region for a trail based on coordinates
-function getNearestRegion(lat: number, lon: number): string {
-  const regions: Record<string, { lat: number; lon: number }> = {
-    front_range: { lat: 39.75, lon: -105.2 },
-    boulder: { lat: 40.015, lon: -105.27 },
-    golden: { lat: 39.75, lon: -105.22 },
-    denver: { lat: 39.74, lon: -104.99 },
-    colorado_springs: { lat: 38.83, lon: -104.82 },
-    fort_collins: { lat: 40.58, lon: -105.08 },
-    summit_county: { lat: 39.6, lon: -106.0 },
-    leadville: { lat: 39.25, lon: -106.29 },
-    aspen: { lat: 39.19, lon: -106.82 },
-    durango: { lat: 37.28, lon: -107.88 },
-    steamboat: { lat: 40.48, lon: -106.83 },
-    gunnison: { lat: 38.55, lon: -106.93 },
-    telluride: { lat: 37.94, lon: -107.81 },
-  };
-
-  let nearest = 'front_range';
-  let minDist = Infinity;
-
-  for (const [regionId, center] of Object.entries(regions)) {
-    const dist = Math.sqrt(
-      Math.pow(lat - center.lat, 2) + Math.pow(lon - center.lon, 2)
-    );
-    if (dist < minDist) {
-      minDist = dist;
-      nearest = regionId;
-    }
-  }
-
-  return nearest;
-}
-
-// Calculate hours since significant precipitation
-function calculateHoursSinceRain(weather: WeatherDay[]): number {
-  const now = new Date();
-  
-  // Sort by date descending (most recent first)
-  const sorted = [...weather].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-  );
-  
-  for (const day of sorted) {
-    if (day.precipitation_mm >= PRECIP_THRESHOLD_MM) {
-      const rainDate = new Date(day.date);
-      // Assume rain fell at noon on that day
-      rainDate.setHours(12, 0, 0, 0);
-      const hoursSince = (now.getTime() - rainDate.getTime()) / (1000 * 60 * 60);
-      return Math.max(0, Math.round(hoursSince));
-    }
-  }
-  
-  // No significant rain in history - return days * 24
-  return weather.length * 24;
-}
-
-// Calculate average temperature over last N days
-function calculateAvgTemp(weather: WeatherDay[], days: number = 3): number {
-  const recent = weather.slice(0, days);
-  if (recent.length === 0) return 15; // Default to moderate temp
-  
-  const avgMax = recent.reduce((sum, d) => sum + d.temp_max_c, 0) / recent.length;
-  return avgMax;
-}
-
-// Calculate total recent precipitation
-function calculateRecentPrecip(weather: WeatherDay[], days: number = 7): number {
-  const recent = weather.slice(0, days);
-  return recent.reduce((sum, d) => sum + d.precipitation_mm, 0);
-}
-
-// Main prediction algorithm
-function predictTrailCondition(
-  trail: Trail,
-  weather: WeatherDay[]
-): { condition: TrailCondition; confidence: number; hours_since_rain: number; effective_dry_hours: number } {
-  // Base dry time from soil
-  const baseDryHours = trail.base_dry_hours || 
-    (trail.soil_drainage_class ? BASE_DRY_HOURS[trail.soil_drainage_class] : 48);
-  
-  // Aspect modifier (south-facing dries faster)
-  const aspectMod = trail.dominant_aspect 
-    ? ASPECT_MODIFIERS[trail.dominant_aspect] || 1.0
-    : 1.0;
-  
-  // Elevation modifier (>8000ft / 2438m = slower drying)
-  const elevMod = (trail.elevation_min && trail.elevation_min > 2438) ? 1.2 : 1.0;
-  
-  // Temperature modifier (with elevation lapse rate correction)
-  // Standard lapse rate: ~6.5°C per 1000m elevation gain
-  // Weather stations are at low elevations; trails can be much higher
-  const LAPSE_RATE = 6.5; // °C per 1000m
-  const STATION_ELEVATIONS: Record<string, number> = {
-    front_range: 1800, boulder: 1655, golden: 1730, denver: 1609,
-    colorado_springs: 1839, fort_collins: 1525, summit_county: 2926,
-    leadville: 3094, aspen: 2438, durango: 2003, steamboat: 2051,
-    gunnison: 2347, telluride: 2667,
-  };
-  const nearestRegion = getNearestRegion(trail.centroid_lat, trail.centroid_lon);
-  const stationElevation = STATION_ELEVATIONS[nearestRegion] || 1800;
-  const trailElevation = trail.elevation_min || stationElevation;
-  const elevDiffM = Math.max(0, trailElevation - stationElevation);
-  const lapseCorrection = (elevDiffM / 1000) * LAPSE_RATE;
-  
-  const stationAvgTemp = calculateAvgTemp(weather, 3);
-  const avgTemp = stationAvgTemp - lapseCorrection;
-  
-  let tempMod: number;
-  if (avgTemp > 20) {
-    tempMod = 0.7;  // Hot = fast drying
-  } else if (avgTemp > 10) {
-    tempMod = 1.0;  // Moderate
-  } else if (avgTemp > 0) {
-    tempMod = 1.5;  // Cold = slow drying
-  } else {
-    tempMod = 3.0;  // Freezing = snow/ice conditions
-  }
-  
-  // Calculate effective dry time
-  const effectiveDryHours = Math.round(baseDryHours * aspectMod * elevMod * tempMod);
-  
-  // Hours since significant precipitation
-  const hoursSinceRain = calculateHoursSinceRain(weather);
-  
-  // Determine condition
-  let condition: TrailCondition;
-  
-  if (avgTemp < 0) {
-    condition = 'snow';
-  } else if (hoursSinceRain > effectiveDryHours * 1.5) {
-    condition = 'rideable';
-  } else if (hoursSinceRain > effectiveDryHours) {
-    condition = 'likely_rideable';
-  } else if (hoursSinceRain > effectiveDryHours * 0.5) {
-    condition = 'likely_muddy';
-  } else {
-    condition = 'muddy';
-  }
-  
-  // Calculate confidence
-  let confidence = 50; // Base
-  if (trail.soil_drainage_class) confidence += 25;
-  if (trail.dominant_aspect) confidence += 10;
-  if (trail.elevation_min !== null) confidence += 10;
-  // Could add user report boost here
-  confidence = Math.min(confidence, 100);
-  
-  return { condition, confidence, hours_since_rain: hoursSinceRain, effective_dry_hours: effectiveDryHours };
-}
-
 // Main function
 async function generatePredictions(): Promise<void> {
   console.log('🔮 Prediction Generator');
@@ -299,86 +114,295 @@ async function generatePredictions(): Promise<void> {
   }
   console.log(`Loaded ${trails.length} trails\n`);
 
-  // Fetch weather data (last 7 days for all regions)
+  // Fetch the weather grid (inactive cells still carry history)
+  console.log('Fetching weather grid...');
+  const { data: cellRows, error: cellsError } = await supabase
+    .from('weather_grid_cells')
+    .select('id, lat, lon, elevation_m');
+
+  if (cellsError) {
+    console.error('Error fetching weather grid:', cellsError.message);
+    process.exit(1);
+  }
+  const stations = stationsFromCells(cellRows || []);
+  console.log(`Loaded ${Object.keys(stations).length} grid cells\n`);
+
+  // Fetch weather data (season history for the snowpack plus forecast, all cells)
   console.log('Fetching weather...');
-  const sevenDaysAgo = new Date();
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-  
-  const { data: weather, error: weatherError } = await supabase
-    .from('weather_cache')
-    .select('*')
-    .gte('date', sevenDaysAgo.toISOString().split('T')[0])
-    .order('date', { ascending: false });
-
-  if (weatherError) {
-    console.error('Error fetching weather:', weatherError.message);
+  const now = new Date();
+  const historyStart = new Date(now);
+  historyStart.setDate(historyStart.getDate() - WEATHER_HISTORY_DAYS);
+  const forecastEnd = new Date(now);
+  forecastEnd.setDate(forecastEnd.getDate() + FORECAST_DAYS + 1);
+
+  // Group weather by cell (paginated, one row per cell-day)
+  const weatherByCell: Record<string, WeatherDay[]> = {};
+  const fetchedAtByCell: Record<string, string> = {};
+  let weatherCount = 0;
+  offset = 0;
+  while (true) {
+    const { data: batch, error: weatherError } = await supabase
+      .from('weather_cache')
+      .select(`cell_id, fetched_at, ${WEATHER_DAY_COLUMNS}`)
+      .gte('date', historyStart.toISOString().split('T')[0])
+      // Unique order, so pages neither overlap nor skip rows
+      .order('date', { ascending: false })
+      .order('cell_id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (weatherError) {
+      console.error('Error fetching weather:', weatherError.message);
+      process.exit(1);
+    }
+    if (!batch || batch.length === 0) break;
+    for (const w of batch) {
+      if (!weatherByCell[w.cell_id]) {
+        weatherByCell[w.cell_id] = [];
+      }
+      weatherByCell[w.cell_id].push({
+        date: w.date,
+        precipitation_mm: w.precipitation_mm,
+        temp_max_c: w.temp_max_c,
+        temp_min_c: w.temp_min_c,
+        humidity_pct: w.humidity_pct,
+        rain_mm: w.rain_mm,
+        showers_mm: w.showers_mm,
+        snowfall_cm: w.snowfall_cm,
+        precipitation_hours: w.precipitation_hours,
+        shortwave_radiation_mj: w.shortwave_radiation_mj,
+        wind_speed_mean_kmh: w.wind_speed_mean_kmh,
+        vpd_max_kpa: w.vpd_max_kpa,
+      });
+      if (w.fetched_at && (!fetchedAtByCell[w.cell_id] || w.fetched_at > fetchedAtByCell[w.cell_id])) {
+        fetchedAtByCell[w.cell_id] = w.fetched_at;
+      }
+    }
+    weatherCount += batch.length;
+    if (batch.length < pageSize) break;
+    offset += pageSize;
+  }
+  console.log(`Loaded ${weatherCount} weather records\n`);
+
+  // Fetch hourly weather for the moisture model (paginated, ~24 rows per cell-day)
+  console.log('Fetching hourly weather...');
+  const hourlyByCell: Record<string, WeatherHour[]> = {};
+  let hourlyCount = 0;
+  offset = 0;
+  while (true) {
+    const { data: batch, error: hourlyError } = await supabase
+      .from('weather_hourly')
+      .select(`cell_id, ${WEATHER_HOUR_COLUMNS}`)
+      .gte('time', historyStart.toISOString())
+      .lte('time', forecastEnd.toISOString())
+      .order('time', { ascending: true })
+      .order('cell_id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (hourlyError) {
+      console.error('Error fetching hourly weather:', hourlyError.message);
+      process.exit(1);
+    }
+    if (!batch || batch.length === 0) break;
+    for (const h of batch) {
+      if (!hourlyByCell[h.cell_id]) {
+        hourlyByCell[h.cell_id] = [];
+      }
+      hourlyByCell[h.cell_id].push({
+        time: h.time,
+        precipitation_mm: h.precipitation_mm,
+        temp_c: h.temp_c,
+        humidity_pct: h.humidity_pct,
+        wind_speed_kmh: h.wind_speed_kmh,
+        rain_mm: h.rain_mm,
+        showers_mm: h.showers_mm,
+        snowfall_cm: h.snowfall_cm,
+        shortwave_radiation_wm2: h.shortwave_radiation_wm2,
+        vpd_kpa: h.vpd_kpa,
+      });
+    }
+    hourlyCount += batch.length;
+    if (batch.length < pageSize) break;
+    offset += pageSize;
+  }
+  console.log(`Loaded ${hourlyCount} hourly records\n`);
+
+  // Fetch trail segments (paginated, several rows per long trail)
+  console.log('Fetching trail segments...');
+  const segmentsByTrail: Record<number, TrailSegment[]> = {};
+  let segmentCount = 0;
+  offset = 0;
+  while (true) {
+    const { data: batch, error: segmentsError } = await supabase
+      .from('trail_segments')
+      .select('*')
+      .order('id', { ascending: true })
+      .range(offset, offset + pageSize - 1);
+
+    if (segmentsError) {
+      console.warn('  Could not load segments, predicting whole trails:', segmentsError.message);
+      break;
+    }
+    if (!batch || batch.length === 0) break;
+    for (const s of batch) {
+      if (!segmentsByTrail[s.trail_id]) {
+        segmentsByTrail[s.trail_id] = [];
+      }
+      segmentsByTrail[s.trail_id].push(s);
+    }
+    segmentCount += batch.length;
+    if (batch.length < pageSize) break;
+    offset += pageSize;
+  }
+  console.log(`Loaded ${segmentCount} segments for ${Object.keys(segmentsByTrail).length} trails\n`);
+
+  // Fetch recent rider reports (older ones have fully decayed)
+  console.log('Fetching condition reports...');
+  const reportsSince = new Date(now.getTime() - REPORT_MAX_AGE_HOURS * 60 * 60 * 1000);
+  const { data: reports, error: reportsError } = await supabase
+    .from('condition_reports')
+    .select('trail_id, condition, reported_at')
+    .gte('reported_at', reportsSince.toISOString());
+
+  if (reportsError) {
+    console.error('Error fetching reports:', reportsError.message);
     process.exit(1);
   }
-  console.log(`Loaded ${weather?.length || 0} weather records\n`);
 
-  // Group weather by region
-  const weatherByRegion: Record<string, WeatherDay[]> = {};
-  for (const w of weather || []) {
-    if (!weatherByRegion[w.region]) {
-      weatherByRegion[w.region] = [];
+  const reportsByTrail: Record<number, TrailReport[]> = {};
+  for (const r of reports || []) {
+    if (!reportsByTrail[r.trail_id]) {
+      reportsByTrail[r.trail_id] = [];
     }
-    weatherByRegion[w.region].push({
-      date: w.date,
-      precipitation_mm: w.precipitation_mm,
-      temp_max_c: w.temp_max_c,
-      temp_min_c: w.temp_min_c,
-      humidity_pct: w.humidity_pct,
-    });
+    reportsByTrail[r.trail_id].push({ condition: r.condition, reported_at: r.reported_at });
+  }
+  console.log(`Loaded ${reports?.length || 0} reports for ${Object.keys(reportsByTrail).length} trails\n`);
+
+  // Load the active calibrated coefficient set (see scripts/calibration)
+  console.log('Fetching model coefficients...');
+  const { data: coefficientRow, error: coefficientsError } = await supabase
+    .from('model_coefficients')
+    .select('version, base_dry_hours, aspect_modifiers')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (coefficientsError) {
+    console.warn('  Could not load coefficients, using defaults:', coefficientsError.message);
+  }
+  const coefficients = coefficientRow
+    ? coefficientsFromRow(coefficientRow as CoefficientRow)
+    : DEFAULT_COEFFICIENTS;
+  console.log(`Using ${coefficients.version === null ? 'default coefficients' : `coefficient set v${coefficients.version}`}\n`);
+
+  // Cells with weather to interpolate from, checked and cleaned
+  console.log('Checking weather data quality...');
+  const cellWeather: Record<string, RegionWeather> = {};
+  const qualityByCell: Record<string, CellQuality> = {};
+  for (const cellId of new Set([...Object.keys(weatherByCell), ...Object.keys(hourlyByCell)])) {
+    if (!stations[cellId]) continue;
+    const checked = checkCellWeather(
+      cellId,
+      weatherByCell[cellId] || [],
+      hourlyByCell[cellId] || [],
+      fetchedAtByCell[cellId] ?? null,
+      now
+    );
+    qualityByCell[cellId] = checked.quality;
+    cellWeather[cellId] = { daily: checked.daily, hourly: checked.hourly };
+  }
+  const cellQualityCounts: Record<WeatherQualityStatus, number> = { ok: 0, degraded: 0, bad: 0 };
+  for (const quality of Object.values(qualityByCell)) {
+    cellQualityCounts[quality.status]++;
   }
+  console.log(`  ${cellQualityCounts.ok} ok, ${cellQualityCounts.degraded} degraded, ${cellQualityCounts.bad} unusable`);
+  console.log(`Interpolating from ${Object.keys(cellWeather).length} cells\n`);
 
   // Generate predictions
   console.log('Generating predictions...');
   const predictions: TrailPrediction[] = [];
-  const conditionCounts: Record<TrailCondition, number> = {
-    rideable: 0,
-    likely_rideable: 0,
-    likely_muddy: 0,
-    muddy: 0,
-    snow: 0,
-    unknown: 0,
-  };
+  const historyRows: object[] = [];
+  const today = localDate(now);
+  const withoutWeather: string[] = [];
 
   for (const trail of trails) {
-    const region = getNearestRegion(trail.centroid_lat, trail.centroid_lon);
-    const regionWeather = weatherByRegion[region] || weatherByRegion['front_range'] || [];
+    let regionWeather = trailWeather(trail, cellWeather, stations, qualityByCell);
+    if (!regionWeather) {
+      withoutWeather.push(trail.name);
+      regionWeather = NO_USABLE_WEATHER;
+    }
     
-    const prediction = predictTrailCondition(trail, regionWeather);
+    // A single segment is the whole trail; only split trails are rolled up
+    const trailSegments = (segmentsByTrail[trail.id] || []).sort((a, b) => a.segment_index - b.segment_index);
+    const segments = trailSegments.length > 1 ? trailSegments : [];
+    
+    const prediction = predictTrailCondition(trail, regionWeather, {
+      now,
+      reports: reportsByTrail[trail.id] || [],
+      coefficients,
+      segments,
+    });
     
+    // Today's row in the archive, with the weather leading up to it
+    const recent = weatherBefore(
+      regionWeather.hourly && regionWeather.hourly.length > 0
+        ? regionWeather.hourly
+        : hourlyFromDaily(regionWeather.daily),
+      now
+    );
+    historyRows.push({
+      trail_id: trail.id,
+      date: today,
+      condition: prediction.condition,
+      confidence: prediction.confidence,
+      soil_moisture_pct: prediction.factors.soil_moisture_pct,
+      precip_24h_mm: recent ? Math.round(recent.precipitation_mm * 100) / 100 : null,
+      temp_max_c: recent ? Math.round(recent.temp_max_c * 10) / 10 : null,
+      temp_min_c: recent ? Math.round(recent.temp_min_c * 10) / 10 : null,
+      predicted_at: now.toISOString(),
+    });
+
+    // Attach segment geometry so the map can colour each chunk
+    const geometryByIndex = new Map(segments.map((s) => [s.segment_index, s.geometry]));
     predictions.push({
       id: trail.id,
       cotrex_id: trail.cotrex_id,
       name: trail.name,
       centroid_lat: trail.centroid_lat,
       centroid_lon: trail.centroid_lon,
-      condition: prediction.condition,
-      confidence: prediction.confidence,
-      hours_since_rain: prediction.hours_since_rain,
-      effective_dry_hours: prediction.effective_dry_hours,
-      factors: {
-        soil: trail.soil_drainage_class,
-        aspect: trail.dominant_aspect,
-        elevation_min: trail.elevation_min,
-        elevation_max: trail.elevation_max,
-        recent_precip_mm: calculateRecentPrecip(regionWeather, 7),
-        base_dry_hours: trail.base_dry_hours || 48,
-      },
+      ...prediction,
+      segments: prediction.segments.map((s) => ({ ...s, geometry: geometryByIndex.get(s.index) })),
       geometry: trail.geometry,
     });
-    
-    conditionCounts[prediction.condition]++;
+  }
+
+  if (withoutWeather.length > 0) {
+    console.warn(`  ${withoutWeather.length} trails have no grid cell weather; predicted unknown`);
+  }
+
+  const conditionCounts = summarizeConditions(predictions);
+
+  const trailQualityCounts: Record<WeatherQualityStatus, number> = { ok: 0, degraded: 0, bad: 0 };
+  for (const p of predictions) {
+    trailQualityCounts[p.factors.weather_quality]++;
+  }
+  const dataQuality: DataQualitySummary = {
+    checked_at: now.toISOString(),
+    cells: cellQualityCounts,
+    trails: trailQualityCounts,
+    issues: Object.values(qualityByCell)
+      .filter((q) => q.status !== 'ok')
+      .sort((a, b) => a.cell_id.localeCompare(b.cell_id)),
+  };
+  if (trailQualityCounts.bad > 0) {
+    console.warn(`  ${trailQualityCounts.bad} trails predicted unknown: their weather is missing or failed data-quality checks`);
   }
 
   // Create output
   const output = {
-    generated_at: new Date().toISOString(),
+    generated_at: now.toISOString(),
     region: 'Colorado',
     total_trails: predictions.length,
     summary: conditionCounts,
+    data_quality: dataQuality,
     trails: predictions,
   };
 
@@ -395,7 +419,11 @@ async function generatePredictions(): Promise<void> {
       hours_since_rain: p.hours_since_rain,
       effective_dry_hours: p.effective_dry_hours,
       factors: p.factors,
-      predicted_at: new Date().toISOString(),
+      explanation: p.explanation,
+      segments: p.segments,
+      windows: p.windows,
+      forecast: p.forecast,
+      predicted_at: now.toISOString(),
     }));
     
     // Upsert in batches of 500
@@ -412,6 +440,32 @@ async function generatePredictions(): Promise<void> {
         console.log(`  Batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(supabasePredictions.length / batchSize)} uploaded`);
       }
     }
+
+    // Archive today's predictions; a later run today replaces them
+    console.log('\nArchiving prediction history...');
+    for (let i = 0; i < historyRows.length; i += batchSize) {
+      const { error: historyError } = await supabase
+        .from('trail_prediction_history')
+        .upsert(historyRows.slice(i, i + batchSize), { onConflict: 'trail_id,date' });
+
+      if (historyError) {
+        console.error(`Error archiving batch ${i / batchSize + 1}:`, historyError.message);
+      }
+    }
+
+    // Retention: drop days older than HISTORY_RETENTION_DAYS
+    const cutoff = new Date(now);
+    cutoff.setDate(cutoff.getDate() - HISTORY_RETENTION_DAYS);
+    const { error: pruneError, count: pruned } = await supabase
+      .from('trail_prediction_history')
+      .delete({ count: 'exact' })
+      .lt('date', localDate(cutoff));
+
+    if (pruneError) {
+      console.error('Error pruning prediction history:', pruneError.message);
+    } else {
+      console.log(`  ${historyRows.length} days archived, ${pruned ?? 0} older than ${HISTORY_RETENTION_DAYS} days pruned`);
+    }
     console.log('✅ Supabase updated');
   }
 
@@ -436,6 +490,7 @@ async function generatePredictions(): Promise<void> {
         likely_muddy: '🟠',
         muddy: '🔴',
         snow: '❄️',
+        freeze_thaw: '🧊',
         unknown: '⚪',
       }[condition] || '⚪';
       console.log(`  ${emoji} ${condition}: ${count} (${pct}%)`);
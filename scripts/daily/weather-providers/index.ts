@@ -0,0 +1,73 @@
+/**
+ * Weather providers
+ *
+ * The daily job and backfills fetch through a list of providers, first
+ * choice first. Locations a provider cannot serve fall through to the next.
+ * The list comes from --provider or WEATHER_PROVIDER, comma separated:
+ *
+ *   open-meteo          forecast API, past ~3 months and 16 days ahead
+ *   open-meteo-archive  historical reanalysis, 1940 to ~5 days ago
+ *   nws                 NWS gridpoint forecast (days ahead only)
+ *   fixture             JSON file (WEATHER_FIXTURE_FILE), no network
+ */
+
+import * as path from 'path';
+import { fixtureProvider } from './fixture';
+import { nwsProvider } from './nws';
+import { openMeteoArchiveProvider, openMeteoForecastProvider } from './open-meteo';
+import { DateRange, LocationWeather, WeatherLocation, WeatherProvider } from './types';
+
+export * from './types';
+
+export const DEFAULT_PROVIDERS = 'open-meteo,nws';
+
+const DEFAULT_FIXTURE_FILE = path.join(__dirname, '../../backtest/fixtures/weather.json');
+
+const PROVIDERS: Record<string, () => WeatherProvider> = {
+  'open-meteo': openMeteoForecastProvider,
+  'open-meteo-archive': openMeteoArchiveProvider,
+  nws: nwsProvider,
+  fixture: () => fixtureProvider(process.env.WEATHER_FIXTURE_FILE || DEFAULT_FIXTURE_FILE),
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+// Build the provider list from a comma-separated spec. Throws on unknown names.
+export function createProviders(spec: string): WeatherProvider[] {
+  const names = spec.split(',').map((n) => n.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('No weather provider given');
+  }
+  return names.map((name) => {
+    const create = PROVIDERS[name];
+    if (!create) {
+      throw new Error(`Unknown weather provider "${name}" (expected ${PROVIDER_NAMES.join(', ')})`);
+    }
+    return create();
+  });
+}
+
+// Fetch from each provider in turn, passing on the locations still missing.
+// Returns results in location order and the provider that served each.
+export async function fetchWithFallback(
+  providers: WeatherProvider[],
+  locations: WeatherLocation[],
+  range: DateRange
+): Promise<Array<{ weather: LocationWeather; provider: string } | null>> {
+  const results: Array<{ weather: LocationWeather; provider: string } | null> = locations.map(() => null);
+
+  for (const provider of providers) {
+    const missing = locations.map((_, i) => i).filter((i) => results[i] === null);
+    if (missing.length === 0) break;
+
+    const fetched = await provider.fetch(missing.map((i) => locations[i]), range);
+    missing.forEach((locationIdx, i) => {
+      const weather = fetched[i];
+      if (weather && weather.days.length > 0) {
+        results[locationIdx] = { weather, provider: provider.name };
+      }
+    });
+  }
+
+  return results;
+}
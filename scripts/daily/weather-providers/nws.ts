@@ -0,0 +1,149 @@
+/**
+ * National Weather Service gridpoint provider (no API key, US only)
+ *
+ * Resolves each location to its NWS forecast grid square via /points, then
+ * reads the raw gridpoint layers. Layers come as ISO 8601 intervals
+ * ("2024-05-01T13:00:00+00:00/PT3H") that are expanded to hours; daily
+ * summaries are built from complete local days. Gridpoints only carry the
+ * forecast, so this serves the days ahead and not the past week.
+ */
+
+import { localDate } from '../../../src/lib/model';
+import { WeatherDay, WeatherHour } from '../../../src/lib/types';
+import { DateRange, LocationWeather, WeatherLocation, WeatherProvider } from './types';
+
+const NWS_URL = 'https://api.weather.gov';
+
+// NWS asks every client to identify itself
+const USER_AGENT = 'stay-singletrack (trail condition predictions)';
+
+// Be polite to a free API: one location at a time with a pause between
+const REQUEST_DELAY_MS = 250;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+interface GridpointLayer {
+  uom?: string;
+  values: Array<{ validTime: string; value: number | null }>;
+}
+
+interface GridpointResponse {
+  properties: {
+    elevation?: { value: number | null };
+    temperature: GridpointLayer;
+    relativeHumidity: GridpointLayer;
+    windSpeed: GridpointLayer;
+    quantitativePrecipitation: GridpointLayer;
+  };
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/geo+json' },
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+// Hours in an ISO 8601 duration ("PT3H", "P1DT6H")
+function durationHours(duration: string): number {
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return 1;
+  const [, days, hours, minutes] = match;
+  return Math.max(1, Number(days ?? 0) * 24 + Number(hours ?? 0) + Math.round(Number(minutes ?? 0) / 60));
+}
+
+// Expand a layer into hourly values keyed by UTC ISO hour. Totals (rain)
+// are split evenly across the interval; other values repeat.
+function expandLayer(layer: GridpointLayer, total: boolean): Map<string, number> {
+  const hourly = new Map<string, number>();
+  for (const { validTime, value } of layer.values) {
+    if (value === null) continue;
+    const [start, duration] = validTime.split('/');
+    const hours = durationHours(duration);
+    const startMs = Date.parse(start);
+    for (let h = 0; h < hours; h++) {
+      hourly.set(new Date(startMs + h * MS_PER_HOUR).toISOString(), total ? value / hours : value);
+    }
+  }
+  return hourly;
+}
+
+// Daily summaries from complete local days of hours
+function daysFromHours(hours: WeatherHour[]): WeatherDay[] {
+  const byDate = new Map<string, WeatherHour[]>();
+  for (const hour of hours) {
+    const date = localDate(new Date(hour.time));
+    byDate.set(date, [...(byDate.get(date) ?? []), hour]);
+  }
+
+  const days: WeatherDay[] = [];
+  for (const [date, dayHours] of byDate) {
+    if (dayHours.length < 24) continue;
+    days.push({
+      date,
+      precipitation_mm: Math.round(dayHours.reduce((sum, h) => sum + h.precipitation_mm, 0) * 10) / 10,
+      temp_max_c: Math.max(...dayHours.map((h) => h.temp_c)),
+      temp_min_c: Math.min(...dayHours.map((h) => h.temp_c)),
+      humidity_pct: Math.round(dayHours.reduce((sum, h) => sum + h.humidity_pct, 0) / dayHours.length),
+    });
+  }
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function fetchLocation(location: WeatherLocation, range: DateRange): Promise<LocationWeather> {
+  const point = await getJson<{ properties: { forecastGridData: string } }>(
+    `${NWS_URL}/points/${location.lat.toFixed(4)},${location.lon.toFixed(4)}`
+  );
+  const grid = await getJson<GridpointResponse>(point.properties.forecastGridData);
+  const p = grid.properties;
+
+  const temperature = expandLayer(p.temperature, false);
+  const humidity = expandLayer(p.relativeHumidity, false);
+  const wind = expandLayer(p.windSpeed, false);
+  const precipitation = expandLayer(p.quantitativePrecipitation, true);
+
+  // Only hours with every layer: rain past the precipitation forecast's
+  // horizon is unknown, not zero
+  const hours: WeatherHour[] = [...temperature.keys()]
+    .filter((time) => {
+      const date = localDate(new Date(time));
+      return date >= range.start && date <= range.end &&
+        precipitation.has(time) && humidity.has(time) && wind.has(time);
+    })
+    .sort()
+    .map((time) => ({
+      time,
+      precipitation_mm: Math.round(precipitation.get(time)! * 100) / 100,
+      temp_c: temperature.get(time)!,
+      humidity_pct: Math.round(humidity.get(time)!),
+      wind_speed_kmh: wind.get(time)!,
+    }));
+
+  return {
+    elevation_m: p.elevation?.value != null ? Math.round(p.elevation.value) : null,
+    days: daysFromHours(hours),
+    hours,
+  };
+}
+
+export function nwsProvider(): WeatherProvider {
+  return {
+    name: 'nws',
+    async fetch(locations, range) {
+      const results: Array<LocationWeather | null> = [];
+      for (const location of locations) {
+        try {
+          results.push(await fetchLocation(location, range));
+        } catch (error) {
+          console.error(`nws: error fetching ${location.id}:`, error);
+          results.push(null);
+        }
+        await new Promise((r) => setTimeout(r, REQUEST_DELAY_MS));
+      }
+      return results;
+    },
+  };
+}
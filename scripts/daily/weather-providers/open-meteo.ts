@@ -0,0 +1,198 @@
+/**
+ * Open-Meteo providers (no API key required)
+ *
+ * The forecast API covers roughly the last three months plus 16 days ahead;
+ * the archive API (ERA5 reanalysis) covers 1940 to about five days ago.
+ * Both answer the same request with the same response shape.
+ */
+
+import { WeatherDay, WeatherHour } from '../../../src/lib/types';
+import { DateRange, LocationWeather, WeatherLocation, WeatherProvider } from './types';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+
+// Locations per multi-location request
+const LOCATIONS_PER_REQUEST = 50;
+
+interface OpenMeteoResponse {
+  elevation?: number;
+  utc_offset_seconds: number;
+  hourly: {
+    time: string[];
+    precipitation: number[];
+    temperature_2m: number[];
+    relative_humidity_2m: number[];
+    wind_speed_10m: number[];
+    rain?: number[];
+    showers?: number[];
+    snowfall?: number[];
+    shortwave_radiation?: number[];
+    vapour_pressure_deficit?: number[];
+  };
+  daily: {
+    time: string[];
+    precipitation_sum: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    relative_humidity_2m_mean?: number[];
+    rain_sum?: number[];
+    showers_sum?: number[];
+    snowfall_sum?: number[];
+    precipitation_hours?: number[];
+    shortwave_radiation_sum?: number[];
+    wind_speed_10m_mean?: number[];
+    vapour_pressure_deficit_max?: number[];
+  };
+}
+
+// Convert Open-Meteo local time ("2024-05-01T13:00") to a UTC ISO string
+function localTimeToUtc(localTime: string, utcOffsetSeconds: number): string {
+  const localMs = new Date(`${localTime}:00Z`).getTime();
+  return new Date(localMs - utcOffsetSeconds * 1000).toISOString();
+}
+
+// Whether every value is present. Open-Meteo returns null for values it
+// doesn't have (e.g. days not yet in the archive).
+function complete(...values: Array<number | null | undefined>): boolean {
+  return values.every((v) => v !== null && v !== undefined);
+}
+
+// Convert one location of an Open-Meteo response. Records with missing
+// values are dropped rather than defaulted, so gaps show up as missing data
+// instead of dry, mild weather. The precipitation type breakdown, radiation
+// and vapour pressure deficit are optional and kept as null when missing.
+function parseResponse(data: OpenMeteoResponse): LocationWeather {
+  const days: WeatherDay[] = [];
+  for (let i = 0; i < data.daily.time.length; i++) {
+    const humidity = data.daily.relative_humidity_2m_mean?.[i];
+    if (!complete(
+      data.daily.precipitation_sum[i],
+      data.daily.temperature_2m_max[i],
+      data.daily.temperature_2m_min[i],
+      humidity
+    )) continue;
+    days.push({
+      date: data.daily.time[i],
+      precipitation_mm: data.daily.precipitation_sum[i],
+      temp_max_c: data.daily.temperature_2m_max[i],
+      temp_min_c: data.daily.temperature_2m_min[i],
+      humidity_pct: Math.round(humidity!),
+      rain_mm: data.daily.rain_sum?.[i] ?? null,
+      showers_mm: data.daily.showers_sum?.[i] ?? null,
+      snowfall_cm: data.daily.snowfall_sum?.[i] ?? null,
+      precipitation_hours: data.daily.precipitation_hours?.[i] ?? null,
+      shortwave_radiation_mj: data.daily.shortwave_radiation_sum?.[i] ?? null,
+      wind_speed_mean_kmh: data.daily.wind_speed_10m_mean?.[i] ?? null,
+      vpd_max_kpa: data.daily.vapour_pressure_deficit_max?.[i] ?? null,
+    });
+  }
+
+  const hours: WeatherHour[] = [];
+  for (let i = 0; i < (data.hourly?.time.length ?? 0); i++) {
+    if (!complete(
+      data.hourly.precipitation[i],
+      data.hourly.temperature_2m[i],
+      data.hourly.relative_humidity_2m[i],
+      data.hourly.wind_speed_10m[i]
+    )) continue;
+    hours.push({
+      time: localTimeToUtc(data.hourly.time[i], data.utc_offset_seconds ?? 0),
+      precipitation_mm: data.hourly.precipitation[i],
+      temp_c: data.hourly.temperature_2m[i],
+      humidity_pct: Math.round(data.hourly.relative_humidity_2m[i]),
+      wind_speed_kmh: data.hourly.wind_speed_10m[i],
+      rain_mm: data.hourly.rain?.[i] ?? null,
+      showers_mm: data.hourly.showers?.[i] ?? null,
+      snowfall_cm: data.hourly.snowfall?.[i] ?? null,
+      shortwave_radiation_wm2: data.hourly.shortwave_radiation?.[i] ?? null,
+      vpd_kpa: data.hourly.vapour_pressure_deficit?.[i] ?? null,
+    });
+  }
+
+  return {
+    elevation_m: data.elevation !== undefined ? Math.round(data.elevation) : null,
+    days,
+    hours,
+  };
+}
+
+// Fetch one batch of locations. Open-Meteo answers with one result per
+// location, in order. Null for every location on failure.
+async function fetchBatch(
+  url: string,
+  name: string,
+  locations: WeatherLocation[],
+  range: DateRange
+): Promise<Array<LocationWeather | null>> {
+  const params = new URLSearchParams({
+    latitude: locations.map((l) => l.lat.toString()).join(','),
+    longitude: locations.map((l) => l.lon.toString()).join(','),
+    hourly: [
+      'precipitation',
+      'rain',
+      'showers',
+      'snowfall',
+      'temperature_2m',
+      'relative_humidity_2m',
+      'wind_speed_10m',
+      'shortwave_radiation',
+      'vapour_pressure_deficit',
+    ].join(','),
+    daily: [
+      'precipitation_sum',
+      'rain_sum',
+      'showers_sum',
+      'snowfall_sum',
+      'precipitation_hours',
+      'temperature_2m_max',
+      'temperature_2m_min',
+      'relative_humidity_2m_mean',
+      'shortwave_radiation_sum',
+      'wind_speed_10m_mean',
+      'vapour_pressure_deficit_max',
+    ].join(','),
+    start_date: range.start,
+    end_date: range.end,
+    timezone: 'America/Denver',
+  });
+
+  try {
+    const response = await fetch(`${url}?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    // A single location comes back as an object rather than an array
+    const data: OpenMeteoResponse | OpenMeteoResponse[] = await response.json();
+    const results = Array.isArray(data) ? data : [data];
+    return locations.map((_, i) => (results[i] ? parseResponse(results[i]) : null));
+  } catch (error) {
+    console.error(`${name}: error fetching ${locations.length} locations:`, error);
+    return locations.map(() => null);
+  }
+}
+
+function openMeteoProvider(name: string, url: string): WeatherProvider {
+  return {
+    name,
+    async fetch(locations, range) {
+      const results: Array<LocationWeather | null> = [];
+      for (let i = 0; i < locations.length; i += LOCATIONS_PER_REQUEST) {
+        results.push(...(await fetchBatch(url, name, locations.slice(i, i + LOCATIONS_PER_REQUEST), range)));
+      }
+      return results;
+    },
+  };
+}
+
+// Recent past and forecast
+export function openMeteoForecastProvider(): WeatherProvider {
+  return openMeteoProvider('open-meteo', FORECAST_URL);
+}
+
+// Historical reanalysis for backfills
+export function openMeteoArchiveProvider(): WeatherProvider {
+  return openMeteoProvider('open-meteo-archive', ARCHIVE_URL);
+}
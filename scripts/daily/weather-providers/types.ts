@@ -0,0 +1,28 @@
+import { WeatherDay, WeatherHour } from '../../../src/lib/types';
+
+// Point weather is fetched for (a weather grid cell)
+export interface WeatherLocation {
+  id: string;
+  lat: number;
+  lon: number;
+}
+
+// Inclusive range of local (America/Denver) dates, YYYY-MM-DD
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+// Weather for one location: daily summaries plus hourly data in UTC
+export interface LocationWeather {
+  elevation_m: number | null;
+  days: WeatherDay[];
+  hours: WeatherHour[];
+}
+
+// A source of weather. fetch returns one result per location, in order,
+// with null for locations it could not serve.
+export interface WeatherProvider {
+  name: string;
+  fetch(locations: WeatherLocation[], range: DateRange): Promise<Array<LocationWeather | null>>;
+}
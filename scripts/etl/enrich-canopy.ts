@@ -0,0 +1,87 @@
+/**
+ * Enrich trails with tree canopy cover
+ *
+ * Shaded forest trails dry much slower than open ridgelines. This samples a
+ * locally supplied NLCD Tree Canopy Cover GeoTIFF (percent canopy, 30 m,
+ * CONUS Albers) along each trail, at the same points used for aspect, and
+ * stores the length-weighted mean in canopy_cover_pct. No separate
+ * unweighted mean is stored: samples are evenly spaced, so it would only
+ * differ by how short parts round. Put the tiles in data/canopy (or
+ * CANOPY_DIR). Trails are updated in place; run after enrich-elevation.ts
+ * and before segment-trails.ts, which samples canopy per segment from the
+ * same tiles.
+ *
+ * Usage: npx tsx scripts/etl/enrich-canopy.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { canopyAlong, openRasterTiles } from './terrain';
+
+// File paths
+const TRAILS_FILE = path.join(__dirname, '../../data/enriched/trails_complete.json');
+const CANOPY_DIR = process.env.CANOPY_DIR || path.join(__dirname, '../../data/canopy');
+
+interface TrailData {
+  cotrex_id: string;
+  name: string;
+  geometry: {
+    type: 'MultiLineString';
+    coordinates: number[][][];
+  };
+  canopy_cover_pct?: number | null;
+}
+
+// Mean canopy across records that have it
+function meanCanopy(records: Array<{ canopy_cover_pct?: number | null }>): number | null {
+  const values = records
+    .map((r) => r.canopy_cover_pct)
+    .filter((v): v is number => v !== null && v !== undefined);
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+async function main(): Promise<void> {
+  console.log('🌲 Canopy Enrichment (NLCD Tree Canopy Cover)');
+  console.log('=============================================\n');
+
+  if (!fs.existsSync(TRAILS_FILE)) {
+    console.error(`Input file not found: ${TRAILS_FILE}`);
+    console.error('Run enrich-elevation.ts first');
+    process.exit(1);
+  }
+
+  const tiles = await openRasterTiles(CANOPY_DIR);
+  if (tiles.length === 0) {
+    console.error(`No canopy GeoTIFFs found in ${CANOPY_DIR}`);
+    console.error('Download NLCD Tree Canopy Cover (CONUS) from https://data.fs.usda.gov/geodata/rastergateway/treecanopycover/');
+    process.exit(1);
+  }
+  console.log(`Canopy: ${tiles.length} tiles from ${CANOPY_DIR}\n`);
+
+  // Trails
+  const trailsData: { trails: TrailData[] } = JSON.parse(fs.readFileSync(TRAILS_FILE, 'utf-8'));
+  let trailCount = 0;
+  for (let i = 0; i < trailsData.trails.length; i++) {
+    const trail = trailsData.trails[i];
+    const canopy = await canopyAlong(tiles, trail.geometry.coordinates);
+    trail.canopy_cover_pct = canopy?.canopy_cover_pct ?? null;
+    if (canopy) trailCount++;
+
+    if ((i + 1) % 500 === 0) {
+      console.log(`[${i + 1}/${trailsData.trails.length}] trails, ${trailCount} with canopy`);
+    }
+  }
+  fs.writeFileSync(TRAILS_FILE, JSON.stringify({ ...trailsData, canopy_enriched_at: new Date().toISOString() }, null, 2));
+
+  const mean = meanCanopy(trailsData.trails);
+  console.log('\n✅ Canopy enrichment complete!');
+  console.log(`\nStats:`);
+  console.log(`  Trails with canopy: ${trailCount} / ${trailsData.trails.length}`);
+  console.log(`  Mean trail canopy: ${mean === null ? '—' : `${mean.toFixed(1)}%`}`);
+  console.log('\nRun segment-trails.ts next so segments get canopy too');
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -3,36 +3,30 @@
  * 
  * SSURGO (Soil Survey Geographic Database) provides soil survey information
  * including drainage classification which affects how quickly trails dry.
+ * Each trail is sampled at points along its length (see soil/index.ts) and
+ * stored as the percent of length on each drainage class, plus the dominant
+ * class and a length-weighted base dry time, along with the surface
+ * horizon's sand/silt/clay, hydrologic group and texture (clay-rich tread
+ * turns to "peanut butter" and is damaged by riding wet). Map unit
+ * lookups are cached in soil_mukey_cache.json and reused across runs and by
+ * segment-trails.ts. With --soil-source local, map units are read from a
+ * downloaded gSSURGO/STATSGO2 extract instead of the API (see soil/local.ts).
  * 
- * Usage: npx tsx scripts/etl/enrich-soil.ts
+ * Usage: npx tsx scripts/etl/enrich-soil.ts [--soil-source ssurgo|local]
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-
-// SSURGO REST API endpoint
-const SSURGO_API_URL = 'https://sdmdataaccess.nrcs.usda.gov/Tabular/post.rest';
+import { loadSoilCache, saveSoilCache, soilAlong, soilSourceFromArgs } from './soil';
 
 // File paths
 const INPUT_FILE = path.join(__dirname, '../../data/raw/cotrex_trails.json');
 const OUTPUT_FILE = path.join(__dirname, '../../data/enriched/trails_with_soil.json');
 const PROGRESS_FILE = path.join(__dirname, '../../data/enriched/soil_progress.json');
+const CACHE_FILE = path.join(__dirname, '../../data/enriched/soil_mukey_cache.json');
 
 // Configuration
-const CONCURRENCY = 10; // Concurrent SSURGO requests
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 5000;
-
-// Drainage class to base dry hours mapping
-const DRAINAGE_TO_DRY_HOURS: Record<string, number> = {
-  'Excessively drained': 6,
-  'Somewhat excessively drained': 12,
-  'Well drained': 24,
-  'Moderately well drained': 48,
-  'Somewhat poorly drained': 72,
-  'Poorly drained': 120,
-  'Very poorly drained': 168,
-};
+const CONCURRENCY = 10; // Trails looked up concurrently
 
 interface TrailData {
   cotrex_id: string;
@@ -54,6 +48,12 @@ interface TrailData {
   segment_count?: number;
   // Enriched fields
   soil_drainage_class?: string | null;
+  soil_drainage_distribution?: Record<string, number> | null;
+  soil_sand_pct?: number | null;
+  soil_silt_pct?: number | null;
+  soil_clay_pct?: number | null;
+  soil_hydrologic_group?: string | null;
+  soil_surface_texture?: string | null;
   base_dry_hours?: number | null;
 }
 
@@ -72,87 +72,6 @@ interface Progress {
   lastRunTime: string;
 }
 
-// Build SSURGO SQL query for drainage class at a point
-function buildDrainageQuery(lat: number, lon: number): string {
-  // Note: SSURGO expects lon/lat (x/y) order in WKT
-  return `
-    SELECT TOP 1 c.drainagecl
-    FROM mapunit mu
-    INNER JOIN component c ON c.mukey = mu.mukey
-    WHERE mu.mukey IN (
-      SELECT * FROM SDA_Get_Mukey_from_intersection_with_WktWgs84('POINT(${lon} ${lat})')
-    )
-    AND c.majcompflag = 'Yes'
-    AND c.drainagecl IS NOT NULL
-    ORDER BY c.comppct_r DESC
-  `.trim().replace(/\s+/g, ' ');
-}
-
-// Query SSURGO for drainage class
-async function queryDrainageClass(lat: number, lon: number): Promise<string | null> {
-  const query = buildDrainageQuery(lat, lon);
-  
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await fetch(SSURGO_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: `query=${encodeURIComponent(query)}&format=JSON`,
-      });
-
-      if (!response.ok) {
-        throw new Error(`SSURGO API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      // SSURGO returns data in a specific format
-      if (data.Table && data.Table.length > 0) {
-        const row = data.Table[0];
-        // The result might be an array or object depending on the query
-        if (Array.isArray(row)) {
-          return row[0] || null;
-        } else if (row.drainagecl) {
-          return row.drainagecl;
-        }
-      }
-      
-      return null;
-    } catch (error) {
-      console.error(`  Attempt ${attempt} failed:`, error);
-      if (attempt < MAX_RETRIES) {
-        console.log(`  Retrying in ${RETRY_DELAY_MS / 1000}s...`);
-        await new Promise((r) => setTimeout(r, RETRY_DELAY_MS));
-      }
-    }
-  }
-  
-  return null;
-}
-
-// Get base dry hours from drainage class
-function getDryHours(drainageClass: string | null): number {
-  if (!drainageClass) return 48; // Default
-  
-  // Try exact match first
-  if (drainageClass in DRAINAGE_TO_DRY_HOURS) {
-    return DRAINAGE_TO_DRY_HOURS[drainageClass];
-  }
-  
-  // Try partial match (sometimes SSURGO returns slightly different strings)
-  const lower = drainageClass.toLowerCase();
-  if (lower.includes('excessively')) return 6;
-  if (lower.includes('well') && !lower.includes('moderately') && !lower.includes('somewhat')) return 24;
-  if (lower.includes('moderately well')) return 48;
-  if (lower.includes('somewhat poorly')) return 72;
-  if (lower.includes('poorly') && !lower.includes('very')) return 120;
-  if (lower.includes('very poorly')) return 168;
-  
-  return 48; // Default
-}
-
 // Load progress
 function loadProgress(): Progress {
   try {
@@ -184,7 +103,7 @@ function saveTrails(trails: TrailData[], originalData: RawTrailsData): void {
   const output = {
     ...originalData,
     enriched_at: new Date().toISOString(),
-    enrichment: 'SSURGO soil drainage',
+    enrichment: 'SSURGO soil drainage (sampled along trail)',
     trails,
   };
   
@@ -225,6 +144,10 @@ async function enrichTrailsWithSoil(): Promise<void> {
 
   const trails = rawData.trails;
   const total = trails.length;
+
+  const source = soilSourceFromArgs(process.argv.slice(2));
+  const cache = loadSoilCache(CACHE_FILE);
+  console.log(`Soil source: ${source.name}, cache: ${Object.keys(cache).length} map units`);
   
   console.log(`Processing trails ${startIndex} to ${total - 1} (concurrency: ${CONCURRENCY})...\n`);
 
@@ -242,15 +165,23 @@ async function enrichTrailsWithSoil(): Promise<void> {
       }
       
       try {
-        const drainageClass = await queryDrainageClass(trail.centroid_lat, trail.centroid_lon);
-        trail.soil_drainage_class = drainageClass;
-        trail.base_dry_hours = getDryHours(drainageClass);
+        const soil = await soilAlong(trail.geometry.coordinates, source, cache);
+        trail.soil_drainage_class = soil?.soil_drainage_class ?? null;
+        trail.soil_drainage_distribution = soil?.soil_drainage_distribution ?? null;
+        trail.soil_sand_pct = soil?.soil_sand_pct ?? null;
+        trail.soil_silt_pct = soil?.soil_silt_pct ?? null;
+        trail.soil_clay_pct = soil?.soil_clay_pct ?? null;
+        trail.soil_hydrologic_group = soil?.soil_hydrologic_group ?? null;
+        trail.soil_surface_texture = soil?.soil_surface_texture ?? null;
+        trail.base_dry_hours = soil?.base_dry_hours ?? 48;
         
-        if (drainageClass) {
+        if (soil) {
           progress.processedCount++;
         }
       } catch (error) {
+        console.error(`  ✗ ${trail.name}:`, error);
         trail.soil_drainage_class = null;
+        trail.soil_drainage_distribution = null;
         trail.base_dry_hours = 48;
         progress.errorCount++;
       }
@@ -272,11 +203,13 @@ async function enrichTrailsWithSoil(): Promise<void> {
       console.log('  Saving checkpoint...');
       saveTrails(trails, rawData);
       saveProgress(progress);
+      saveSoilCache(CACHE_FILE, cache);
     }
   }
 
   // Final save
   saveTrails(trails, rawData);
+  saveSoilCache(CACHE_FILE, cache);
   
   // Clean up progress file
   if (fs.existsSync(PROGRESS_FILE)) {
@@ -295,7 +228,8 @@ async function enrichTrailsWithSoil(): Promise<void> {
   console.log(`\nStats:`);
   console.log(`  Trails with soil data: ${withSoil} / ${total}`);
   console.log(`  Errors: ${progress.errorCount}`);
-  console.log(`\nDrainage class distribution:`);
+  console.log(`  Map units cached: ${Object.keys(cache).length}`);
+  console.log(`\nDominant drainage class distribution:`);
   for (const [cls, count] of Object.entries(drainageStats).sort((a, b) => b[1] - a[1])) {
     const pct = ((count / total) * 100).toFixed(1);
     console.log(`  ${cls}: ${count} (${pct}%)`);
@@ -2,6 +2,7 @@
  * Seed Supabase database with enriched trail data
  * 
  * Loads trail data from the enriched JSON and upserts into the trails table.
+ * If segment-trails.ts has been run, also replaces each trail's segments.
  * Uses service role key for admin access.
  * 
  * Usage: npx tsx scripts/etl/seed-database.ts
@@ -22,8 +23,11 @@ const DATA_FILES = [
   path.join(__dirname, '../../data/raw/cotrex_trails.json'),
 ];
 
+const SEGMENTS_FILE = path.join(__dirname, '../../data/enriched/trail_segments.json');
+
 // Configuration
 const BATCH_SIZE = 100;
+const SEGMENT_BATCH_SIZE = 500;
 
 interface TrailData {
   cotrex_id: string;
@@ -41,11 +45,21 @@ interface TrailData {
   centroid_lon: number;
   segment_count?: number;
   soil_drainage_class?: string | null;
+  soil_drainage_distribution?: Record<string, number> | null;
+  soil_sand_pct?: number | null;
+  soil_silt_pct?: number | null;
+  soil_clay_pct?: number | null;
+  soil_hydrologic_group?: string | null;
+  soil_surface_texture?: string | null;
   base_dry_hours?: number | null;
   elevation_min?: number | null;
   elevation_max?: number | null;
   elevation_gain?: number | null;
+  elevation_loss?: number | null;
   dominant_aspect?: string | null;
+  aspect_distribution?: Record<string, number> | null;
+  slope_mean_deg?: number | null;
+  canopy_cover_pct?: number | null;
   elevation_profile?: Array<{ distance_mi: number; elevation_m: number }> | null;
 }
 
@@ -53,6 +67,25 @@ interface TrailsData {
   trails: TrailData[];
 }
 
+interface SegmentData {
+  cotrex_id: string;
+  segment_index: number;
+  geometry: object;
+  start_mi: number;
+  end_mi: number;
+  centroid_lat: number;
+  centroid_lon: number;
+  elevation_min: number | null;
+  elevation_max: number | null;
+  dominant_aspect: string | null;
+  aspect_distribution?: Record<string, number> | null;
+  soil_drainage_class: string | null;
+  soil_drainage_distribution?: Record<string, number> | null;
+  soil_clay_pct?: number | null;
+  canopy_cover_pct?: number | null;
+  base_dry_hours: number | null;
+}
+
 // Create Supabase client with service role
 function createSupabaseClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -101,15 +134,83 @@ function transformForInsert(trail: TrailData) {
     elevation_min: trail.elevation_min ?? trail.elevation_min_m ?? null,
     elevation_max: trail.elevation_max ?? trail.elevation_max_m ?? null,
     elevation_gain: trail.elevation_gain ?? null,
+    elevation_loss: trail.elevation_loss ?? null,
+    elevation_profile: trail.elevation_profile ?? null,
     dominant_aspect: trail.dominant_aspect ?? null,
+    aspect_distribution: trail.aspect_distribution ?? null,
+    slope_mean_deg: trail.slope_mean_deg ?? null,
     soil_drainage_class: trail.soil_drainage_class ?? null,
-    canopy_cover_pct: null, // Not implemented yet
+    soil_drainage_distribution: trail.soil_drainage_distribution ?? null,
+    soil_sand_pct: trail.soil_sand_pct ?? null,
+    soil_silt_pct: trail.soil_silt_pct ?? null,
+    soil_clay_pct: trail.soil_clay_pct ?? null,
+    soil_hydrologic_group: trail.soil_hydrologic_group ?? null,
+    soil_surface_texture: trail.soil_surface_texture ?? null,
+    canopy_cover_pct: trail.canopy_cover_pct ?? null,
     length_miles: trail.length_miles ?? null,
     open_to_bikes: trail.open_to_bikes ?? true,
     base_dry_hours: trail.base_dry_hours ?? 48,
   };
 }
 
+// Replace segments for the seeded trails
+async function seedSegments(
+  supabase: ReturnType<typeof createSupabaseClient>,
+  trailIds: Map<string, number>
+): Promise<void> {
+  if (!fs.existsSync(SEGMENTS_FILE)) {
+    console.log('\nNo segment file found, skipping segments (run segment-trails.ts)');
+    return;
+  }
+
+  const { segments }: { segments: SegmentData[] } = JSON.parse(fs.readFileSync(SEGMENTS_FILE, 'utf-8'));
+  const records = segments
+    .filter((s) => trailIds.has(s.cotrex_id))
+    .map((s) => ({
+      trail_id: trailIds.get(s.cotrex_id),
+      segment_index: s.segment_index,
+      geometry: s.geometry,
+      start_mi: s.start_mi,
+      end_mi: s.end_mi,
+      centroid_lat: s.centroid_lat,
+      centroid_lon: s.centroid_lon,
+      elevation_min: s.elevation_min,
+      elevation_max: s.elevation_max,
+      dominant_aspect: s.dominant_aspect,
+      aspect_distribution: s.aspect_distribution ?? null,
+      soil_drainage_class: s.soil_drainage_class,
+      soil_drainage_distribution: s.soil_drainage_distribution ?? null,
+      soil_clay_pct: s.soil_clay_pct ?? null,
+      canopy_cover_pct: s.canopy_cover_pct ?? null,
+      base_dry_hours: s.base_dry_hours ?? 48,
+    }));
+  console.log(`\nSeeding ${records.length} segments...`);
+
+  // Clear old segments first so re-segmenting doesn't leave stale chunks
+  const ids = [...trailIds.values()];
+  for (let i = 0; i < ids.length; i += SEGMENT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('trail_segments')
+      .delete()
+      .in('trail_id', ids.slice(i, i + SEGMENT_BATCH_SIZE));
+    if (error) {
+      console.log(`✗ Error clearing segments: ${error.message}`);
+      return;
+    }
+  }
+
+  let segmentErrors = 0;
+  for (let i = 0; i < records.length; i += SEGMENT_BATCH_SIZE) {
+    const batch = records.slice(i, i + SEGMENT_BATCH_SIZE);
+    const { error } = await supabase.from('trail_segments').insert(batch);
+    if (error) {
+      console.log(`✗ Segment batch ${Math.floor(i / SEGMENT_BATCH_SIZE) + 1}: ${error.message}`);
+      segmentErrors += batch.length;
+    }
+  }
+  console.log(`✓ ${records.length - segmentErrors} segments, ${segmentErrors} errors`);
+}
+
 // Main seed function
 async function seedDatabase(): Promise<void> {
   console.log('🌱 Database Seeder');
@@ -133,6 +234,7 @@ async function seedDatabase(): Promise<void> {
   // Upsert in batches
   let successCount = 0;
   let errorCount = 0;
+  const trailIds = new Map<string, number>();
   const errors: Array<{ cotrex_id: string; error: string }> = [];
 
   const totalBatches = Math.ceil(bikeTrails.length / BATCH_SIZE);
@@ -151,7 +253,7 @@ async function seedDatabase(): Promise<void> {
         onConflict: 'cotrex_id',
         ignoreDuplicates: false,
       })
-      .select('id');
+      .select('id, cotrex_id');
     
     if (error) {
       console.log(`✗ Error: ${error.message}`);
@@ -161,10 +263,15 @@ async function seedDatabase(): Promise<void> {
       }
     } else {
       successCount += batch.length;
+      for (const row of data || []) {
+        trailIds.set(row.cotrex_id, row.id);
+      }
       console.log(`✓ ${batch.length} trails`);
     }
   }
 
+  await seedSegments(supabase, trailIds);
+
   // Verify count
   const { count, error: countError } = await supabase
     .from('trails')
@@ -0,0 +1,365 @@
+/**
+ * Split trails into fixed-length segments
+ *
+ * A long trail can cross several soils, aspects and elevation bands, so one
+ * condition per trail hides the muddy north-facing stretch on an otherwise
+ * dry ride. This cuts each trail into ~1 km chunks and enriches each chunk
+ * with its own aspect (from the local DEM tiles, see enrich-elevation.ts),
+ * canopy cover (from the NLCD tiles, see enrich-canopy.ts), elevation range
+ * (from the trail's elevation profile) and SSURGO drainage classes (sampled
+ * along the chunk, sharing enrich-soil.ts's map unit cache). Single-segment
+ * trails reuse the trail's soil and canopy instead of sampling again.
+ *
+ * Usage: npx tsx scripts/etl/segment-trails.ts [--soil-source ssurgo|local]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as turf from '@turf/turf';
+import { SoilCache, SoilSource, loadSoilCache, saveSoilCache, soilAlong, soilSourceFromArgs } from './soil';
+import { RasterTile, canopyAlong, openRasterTiles, terrainAlong } from './terrain';
+
+// File paths
+const INPUT_FILE = path.join(__dirname, '../../data/enriched/trails_complete.json');
+const OUTPUT_FILE = path.join(__dirname, '../../data/enriched/trail_segments.json');
+const PROGRESS_FILE = path.join(__dirname, '../../data/enriched/segments_progress.json');
+const SOIL_CACHE_FILE = path.join(__dirname, '../../data/enriched/soil_mukey_cache.json');
+const DEM_DIR = process.env.DEM_DIR || path.join(__dirname, '../../data/dem');
+const CANOPY_DIR = process.env.CANOPY_DIR || path.join(__dirname, '../../data/canopy');
+
+// Configuration
+const SEGMENT_LENGTH_KM = 1;
+const MIN_TAIL_KM = 0.5; // Shorter leftovers are merged into the previous segment
+const CONCURRENCY = 10; // Trails processed concurrently
+const CHECKPOINT_INTERVAL = 200;
+
+const KM_TO_MI = 0.621371;
+
+type Aspect = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+interface TrailData {
+  cotrex_id: string;
+  name: string;
+  length_miles: number | null;
+  geometry: {
+    type: 'MultiLineString';
+    coordinates: number[][][];
+  };
+  centroid_lat: number;
+  centroid_lon: number;
+  soil_drainage_class?: string | null;
+  soil_drainage_distribution?: Record<string, number> | null;
+  soil_clay_pct?: number | null;
+  base_dry_hours?: number | null;
+  elevation_min?: number | null;
+  elevation_max?: number | null;
+  dominant_aspect?: Aspect | null;
+  aspect_distribution?: Record<string, number> | null;
+  canopy_cover_pct?: number | null;
+  elevation_profile?: Array<{ distance_mi: number; elevation_m: number }> | null;
+}
+
+interface SegmentData {
+  cotrex_id: string;
+  segment_index: number;
+  geometry: {
+    type: 'LineString';
+    coordinates: number[][];
+  };
+  start_mi: number;
+  end_mi: number;
+  centroid_lat: number;
+  centroid_lon: number;
+  elevation_min: number | null;
+  elevation_max: number | null;
+  dominant_aspect: Aspect | null;
+  aspect_distribution: Record<string, number> | null;
+  soil_drainage_class: string | null;
+  soil_drainage_distribution: Record<string, number> | null;
+  soil_clay_pct: number | null;
+  canopy_cover_pct: number | null;
+  base_dry_hours: number | null;
+}
+
+interface SegmentsFile {
+  generated_at: string;
+  segment_length_km: number;
+  total_segments: number;
+  segments: SegmentData[];
+}
+
+interface Progress {
+  lastProcessedIndex: number;
+  processedCount: number;
+  soilQueryCount: number;
+  errorCount: number;
+  lastRunTime: string;
+}
+
+// Cut a trail's MultiLineString into chunks of about SEGMENT_LENGTH_KM.
+// Distances run along the parts in order, as in the elevation profile.
+function chunkGeometry(
+  geometry: TrailData['geometry']
+): Array<{ coordinates: number[][]; startKm: number; endKm: number }> {
+  const chunks: Array<{ coordinates: number[][]; startKm: number; endKm: number }> = [];
+  let offsetKm = 0;
+
+  for (const coords of geometry.coordinates) {
+    if (coords.length < 2) continue;
+    const line = turf.lineString(coords);
+    const lengthKm = turf.length(line, { units: 'kilometers' });
+    if (lengthKm <= 0) continue;
+
+    // Chunk boundaries within this part, merging a short tail
+    const bounds: number[] = [0];
+    while (lengthKm - bounds[bounds.length - 1] > SEGMENT_LENGTH_KM) {
+      bounds.push(bounds[bounds.length - 1] + SEGMENT_LENGTH_KM);
+    }
+    if (bounds.length > 1 && lengthKm - bounds[bounds.length - 1] < MIN_TAIL_KM) {
+      bounds.pop();
+    }
+    bounds.push(lengthKm);
+
+    for (let b = 0; b < bounds.length - 1; b++) {
+      const slice = bounds.length === 2
+        ? line
+        : turf.lineSliceAlong(line, bounds[b], bounds[b + 1], { units: 'kilometers' });
+      chunks.push({
+        coordinates: slice.geometry.coordinates,
+        startKm: offsetKm + bounds[b],
+        endKm: offsetKm + bounds[b + 1],
+      });
+    }
+    offsetKm += lengthKm;
+  }
+
+  return chunks;
+}
+
+// Elevation range over a stretch of the trail's profile, interpolating at the ends
+function profileRange(
+  profile: Array<{ distance_mi: number; elevation_m: number }>,
+  startMi: number,
+  endMi: number
+): { min: number; max: number } | null {
+  if (profile.length === 0) return null;
+
+  const at = (mi: number): number => {
+    if (mi <= profile[0].distance_mi) return profile[0].elevation_m;
+    for (let i = 1; i < profile.length; i++) {
+      const a = profile[i - 1];
+      const b = profile[i];
+      if (mi <= b.distance_mi) {
+        const span = b.distance_mi - a.distance_mi;
+        const t = span > 0 ? (mi - a.distance_mi) / span : 0;
+        return a.elevation_m + t * (b.elevation_m - a.elevation_m);
+      }
+    }
+    return profile[profile.length - 1].elevation_m;
+  };
+
+  const elevations = [
+    at(startMi),
+    at(endMi),
+    ...profile.filter((p) => p.distance_mi > startMi && p.distance_mi < endMi).map((p) => p.elevation_m),
+  ];
+  return { min: Math.round(Math.min(...elevations)), max: Math.round(Math.max(...elevations)) };
+}
+
+// Segment one trail and enrich each segment
+async function segmentTrail(
+  trail: TrailData,
+  dem: RasterTile[],
+  canopyTiles: RasterTile[],
+  soilSource: SoilSource,
+  soilCache: SoilCache,
+  progress: Progress
+): Promise<SegmentData[]> {
+  const chunks = chunkGeometry(trail.geometry);
+  if (chunks.length === 0) return [];
+
+  // Profiles are in the trail's reported miles; scale geometry distances to match
+  const totalKm = chunks[chunks.length - 1].endKm;
+  const toMi = trail.length_miles && totalKm > 0 ? trail.length_miles / totalKm : KM_TO_MI;
+  const profile = [...(trail.elevation_profile ?? [])].sort((a, b) => a.distance_mi - b.distance_mi);
+
+  const segments: SegmentData[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const line = turf.lineString(chunk.coordinates);
+    const midpoint = turf.along(line, (chunk.endKm - chunk.startKm) / 2, { units: 'kilometers' });
+    const [lon, lat] = midpoint.geometry.coordinates;
+    const startMi = Math.round(chunk.startKm * toMi * 100) / 100;
+    const endMi = Math.round(chunk.endKm * toMi * 100) / 100;
+
+    const range = profileRange(profile, startMi, endMi);
+    const terrain = chunks.length > 1 ? await terrainAlong(dem, [chunk.coordinates]) : null;
+    const canopy = chunks.length > 1 ? await canopyAlong(canopyTiles, [chunk.coordinates]) : null;
+
+    let drainageClass = trail.soil_drainage_class ?? null;
+    let distribution = trail.soil_drainage_distribution ?? null;
+    let clayPct = trail.soil_clay_pct ?? null;
+    let dryHours = trail.base_dry_hours ?? null;
+    if (chunks.length > 1) {
+      const soil = await soilAlong([chunk.coordinates], soilSource, soilCache);
+      drainageClass = soil?.soil_drainage_class ?? null;
+      distribution = soil?.soil_drainage_distribution ?? null;
+      clayPct = soil?.soil_clay_pct ?? null;
+      dryHours = soil?.base_dry_hours ?? 48;
+      progress.soilQueryCount++;
+    }
+
+    segments.push({
+      cotrex_id: trail.cotrex_id,
+      segment_index: i,
+      geometry: { type: 'LineString', coordinates: chunk.coordinates },
+      start_mi: startMi,
+      end_mi: endMi,
+      centroid_lat: lat,
+      centroid_lon: lon,
+      elevation_min: range?.min ?? trail.elevation_min ?? null,
+      elevation_max: range?.max ?? trail.elevation_max ?? null,
+      dominant_aspect: terrain?.dominant_aspect ?? trail.dominant_aspect ?? null,
+      aspect_distribution: terrain?.aspect_distribution ?? trail.aspect_distribution ?? null,
+      soil_drainage_class: drainageClass,
+      soil_drainage_distribution: distribution,
+      soil_clay_pct: clayPct,
+      canopy_cover_pct: canopy?.canopy_cover_pct ?? trail.canopy_cover_pct ?? null,
+      base_dry_hours: dryHours,
+    });
+  }
+
+  return segments;
+}
+
+// Load/save progress
+function loadProgress(): Progress {
+  try {
+    if (fs.existsSync(PROGRESS_FILE)) {
+      return JSON.parse(fs.readFileSync(PROGRESS_FILE, 'utf-8'));
+    }
+  } catch {
+    console.log('No progress file found');
+  }
+  return {
+    lastProcessedIndex: -1,
+    processedCount: 0,
+    soilQueryCount: 0,
+    errorCount: 0,
+    lastRunTime: new Date().toISOString(),
+  };
+}
+
+function saveProgress(progress: Progress): void {
+  fs.writeFileSync(PROGRESS_FILE, JSON.stringify(progress, null, 2));
+}
+
+function saveSegments(segments: SegmentData[]): void {
+  const output: SegmentsFile = {
+    generated_at: new Date().toISOString(),
+    segment_length_km: SEGMENT_LENGTH_KM,
+    total_segments: segments.length,
+    segments,
+  };
+  fs.writeFileSync(OUTPUT_FILE, JSON.stringify(output, null, 2));
+}
+
+// Main function
+async function segmentTrails(): Promise<void> {
+  console.log('✂️  Trail Segmentation');
+  console.log('======================\n');
+
+  if (!fs.existsSync(INPUT_FILE)) {
+    console.error(`Input file not found: ${INPUT_FILE}`);
+    console.error('Run enrich-elevation.ts first');
+    process.exit(1);
+  }
+
+  const rawData: { trails: TrailData[] } = JSON.parse(fs.readFileSync(INPUT_FILE, 'utf-8'));
+  const trails = rawData.trails;
+  const total = trails.length;
+  console.log(`Loaded ${total} trails`);
+
+  const dem = await openRasterTiles(DEM_DIR);
+  console.log(dem.length > 0 ? `DEM: ${dem.length} tiles` : '⚠ No DEM tiles; segments keep the trail aspect');
+  const canopyTiles = await openRasterTiles(CANOPY_DIR);
+  console.log(canopyTiles.length > 0 ? `Canopy: ${canopyTiles.length} tiles` : '⚠ No canopy tiles; segments keep the trail canopy');
+
+  const soilSource = soilSourceFromArgs(process.argv.slice(2));
+  const soilCache = loadSoilCache(SOIL_CACHE_FILE);
+  console.log(`Soil source: ${soilSource.name}, cache: ${Object.keys(soilCache).length} map units`);
+
+  // Load progress
+  const progress = loadProgress();
+  const startIndex = progress.lastProcessedIndex + 1;
+  let segments: SegmentData[] = [];
+
+  if (startIndex > 0 && fs.existsSync(OUTPUT_FILE)) {
+    console.log(`Resuming from trail ${startIndex}...`);
+    const existing: SegmentsFile = JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf-8'));
+    segments = existing.segments;
+  }
+
+  console.log(`Segment length: ${SEGMENT_LENGTH_KM} km`);
+  console.log(`Processing trails ${startIndex} to ${total - 1} (concurrency: ${CONCURRENCY})...\n`);
+
+  for (let batchStart = startIndex; batchStart < total; batchStart += CONCURRENCY) {
+    const batchEnd = Math.min(batchStart + CONCURRENCY, total);
+    const batch = trails.slice(batchStart, batchEnd);
+
+    const results = await Promise.all(
+      batch.map(async (trail) => {
+        try {
+          const trailSegments = await segmentTrail(trail, dem, canopyTiles, soilSource, soilCache, progress);
+          progress.processedCount++;
+          return trailSegments;
+        } catch (error) {
+          console.log(`  ✗ ${trail.name}: ${error}`);
+          progress.errorCount++;
+          return [];
+        }
+      })
+    );
+    for (const trailSegments of results) {
+      segments.push(...trailSegments);
+    }
+
+    progress.lastProcessedIndex = batchEnd - 1;
+    progress.lastRunTime = new Date().toISOString();
+
+    if (batchEnd % CHECKPOINT_INTERVAL < CONCURRENCY || batchEnd === total) {
+      const pct = ((batchEnd / total) * 100).toFixed(1);
+      console.log(`[${batchEnd}/${total}] ${pct}% — ${segments.length} segments, ${progress.soilQueryCount} soil queries`);
+      saveSegments(segments);
+      saveProgress(progress);
+      saveSoilCache(SOIL_CACHE_FILE, soilCache);
+    }
+  }
+
+  // Final save
+  saveSegments(segments);
+  saveSoilCache(SOIL_CACHE_FILE, soilCache);
+
+  // Clean up progress file
+  if (fs.existsSync(PROGRESS_FILE)) {
+    fs.unlinkSync(PROGRESS_FILE);
+  }
+
+  const multiSegment = new Set(
+    segments.filter((s) => s.segment_index > 0).map((s) => s.cotrex_id)
+  ).size;
+
+  console.log('\n✅ Segmentation complete!');
+  console.log(`\nStats:`);
+  console.log(`  Segments: ${segments.length}`);
+  console.log(`  Trails with more than one segment: ${multiSegment} / ${total}`);
+  console.log(`  Soil queries: ${progress.soilQueryCount}`);
+  console.log(`  Errors: ${progress.errorCount}`);
+  console.log(`\nOutput: ${OUTPUT_FILE}`);
+}
+
+// Run
+segmentTrails().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+/**
+ * Soil drainage along a trail, from SSURGO
+ *
+ * A trail is sampled at points along its length rather than at its
+ * centroid, which for a MultiLineString can fall off the trail entirely.
+ * Each point's map unit contributes its major components by their share of
+ * the map unit, so the result is the percent of the trail's length on each
+ * drainage class. Texture (sand/silt/clay of the surface horizon) is the
+ * length-weighted mean over the same components, and the hydrologic group
+ * and surface texture name the ones covering the most length. Components
+ * are cached by map unit key: neighbouring points, segments and trails
+ * mostly share a handful of map units.
+ *
+ * Map units come from a soil source, chosen with --soil-source or
+ * SOIL_SOURCE:
+ *
+ *   ssurgo  Soil Data Access REST API (default)
+ *   local   gSSURGO/STATSGO2 extract in SOIL_DIR (default data/soil), no network
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { samplePoints } from '../terrain';
+import { localSoilSource } from './local';
+import { ssurgoSource } from './ssurgo';
+import { SoilComponent, SoilSource } from './types';
+
+export * from './types';
+
+export const DEFAULT_SOIL_SOURCE = 'ssurgo';
+
+const DEFAULT_SOIL_DIR = path.join(__dirname, '../../../data/soil');
+
+const SOURCES: Record<string, () => SoilSource> = {
+  ssurgo: ssurgoSource,
+  local: () => localSoilSource(process.env.SOIL_DIR || DEFAULT_SOIL_DIR),
+};
+
+export const SOIL_SOURCE_NAMES = Object.keys(SOURCES);
+
+// Map units change over hundreds of metres; a trail costs two API requests
+// however many points it has, so this mostly bounds query size
+const SOIL_SAMPLE_SPACING_M = 200;
+const MAX_SOIL_SAMPLES = 25;
+
+const DEFAULT_DRY_HOURS = 48;
+
+// Drainage class to base dry hours mapping
+const DRAINAGE_TO_DRY_HOURS: Record<string, number> = {
+  'Excessively drained': 6,
+  'Somewhat excessively drained': 12,
+  'Well drained': 24,
+  'Moderately well drained': 48,
+  'Somewhat poorly drained': 72,
+  'Poorly drained': 120,
+  'Very poorly drained': 168,
+};
+
+// Bumped when SoilComponent gains fields, so older caches are refetched
+const SOIL_CACHE_VERSION = 2;
+
+// Major components by map unit key
+export type SoilCache = Record<string, SoilComponent[]>;
+
+export interface TrailSoil {
+  soil_drainage_class: string | null;                 // largest share
+  soil_drainage_distribution: Record<string, number>; // percent of covered length
+  base_dry_hours: number;                             // length-weighted
+  soil_sand_pct: number | null;                       // length-weighted, surface horizon
+  soil_silt_pct: number | null;
+  soil_clay_pct: number | null;
+  soil_hydrologic_group: string | null;               // largest share
+  soil_surface_texture: string | null;                // largest share
+  coverage: number;                                   // share of length with soil data
+}
+
+// Length-weighted mean over the components that have a value
+function weightedMean(samples: Array<{ value: number | null; lengthM: number }>): number | null {
+  let sum = 0;
+  let weight = 0;
+  for (const { value, lengthM } of samples) {
+    if (value === null) continue;
+    sum += value * lengthM;
+    weight += lengthM;
+  }
+  return weight > 0 ? Math.round((sum / weight) * 10) / 10 : null;
+}
+
+// Key with the most length
+function largest(lengths: Map<string, number>): string | null {
+  return [...lengths.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function addLength(lengths: Map<string, number>, key: string | null, lengthM: number): void {
+  if (key === null) return;
+  lengths.set(key, (lengths.get(key) ?? 0) + lengthM);
+}
+
+// Create a soil source by name. Throws on unknown names.
+export function createSoilSource(name: string): SoilSource {
+  const create = SOURCES[name];
+  if (!create) {
+    throw new Error(`Unknown soil source "${name}" (expected ${SOIL_SOURCE_NAMES.join(', ')})`);
+  }
+  return create();
+}
+
+// Soil source from --soil-source, else SOIL_SOURCE, else the API. Exits on
+// unknown names.
+export function soilSourceFromArgs(argv: string[]): SoilSource {
+  const idx = argv.indexOf('--soil-source');
+  const name = idx >= 0 ? argv[idx + 1] : process.env.SOIL_SOURCE || DEFAULT_SOIL_SOURCE;
+  try {
+    return createSoilSource(name);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+}
+
+// Get base dry hours from drainage class
+export function getDryHours(drainageClass: string | null): number {
+  if (!drainageClass) return DEFAULT_DRY_HOURS;
+
+  // Try exact match first
+  if (drainageClass in DRAINAGE_TO_DRY_HOURS) {
+    return DRAINAGE_TO_DRY_HOURS[drainageClass];
+  }
+
+  // Try partial match (sometimes SSURGO returns slightly different strings)
+  const lower = drainageClass.toLowerCase();
+  if (lower.includes('somewhat excessively')) return 12;
+  if (lower.includes('excessively')) return 6;
+  if (lower.includes('well') && !lower.includes('moderately') && !lower.includes('somewhat')) return 24;
+  if (lower.includes('moderately well')) return 48;
+  if (lower.includes('somewhat poorly')) return 72;
+  if (lower.includes('poorly') && !lower.includes('very')) return 120;
+  if (lower.includes('very poorly')) return 168;
+
+  return DEFAULT_DRY_HOURS;
+}
+
+// Load the map unit cache. Empty when the file doesn't exist yet or was
+// written by an older version.
+export function loadSoilCache(file: string): SoilCache {
+  try {
+    if (fs.existsSync(file)) {
+      const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (saved.version === SOIL_CACHE_VERSION) return saved.map_units;
+      console.log('Soil cache is from an older version, starting empty');
+    }
+  } catch {
+    console.log('Soil cache unreadable, starting empty');
+  }
+  return {};
+}
+
+export function saveSoilCache(file: string, cache: SoilCache): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(file, JSON.stringify({ version: SOIL_CACHE_VERSION, map_units: cache }));
+}
+
+// Drainage class distribution along a line's parts. Map units missing from
+// the cache are queried and added to it. Null when no sampled point falls
+// on a surveyed map unit with drainage data; throws when the source can't
+// be read.
+export async function soilAlong(
+  parts: number[][][],
+  source: SoilSource,
+  cache: SoilCache
+): Promise<TrailSoil | null> {
+  const points = samplePoints(parts, SOIL_SAMPLE_SPACING_M, MAX_SOIL_SAMPLES);
+  if (points.length === 0) return null;
+
+  const mukeys = await source.mukeysAt(points);
+  const missing = [...new Set(mukeys.filter((m): m is string => m !== null && !(m in cache)))];
+  if (missing.length > 0) {
+    for (const [mukey, components] of await source.components(missing)) {
+      cache[mukey] = components;
+    }
+  }
+
+  const lengthByClass = new Map<string, number>();
+  const lengthByGroup = new Map<string, number>();
+  const lengthByTexture = new Map<string, number>();
+  const weighted: Array<{ component: SoilComponent; lengthM: number }> = [];
+  let coveredM = 0;
+  let totalM = 0;
+  points.forEach((point, i) => {
+    totalM += point.lengthM;
+    const mukey = mukeys[i];
+    const components = mukey ? cache[mukey] ?? [] : [];
+    if (components.length === 0) return;
+
+    // Components split the point's length by their share of the map unit
+    const pctSum = components.reduce((sum, c) => sum + c.comppct, 0);
+    for (const c of components) {
+      const share = pctSum > 0 ? c.comppct / pctSum : 1 / components.length;
+      const lengthM = point.lengthM * share;
+      addLength(lengthByClass, c.drainage_class, lengthM);
+      addLength(lengthByGroup, c.hydrologic_group, lengthM);
+      addLength(lengthByTexture, c.surface_texture, lengthM);
+      weighted.push({ component: c, lengthM });
+    }
+    coveredM += point.lengthM;
+  });
+  if (coveredM === 0) return null;
+
+  const distribution: Record<string, number> = {};
+  let dryHoursSum = 0;
+  for (const [drainageClass, lengthM] of lengthByClass) {
+    distribution[drainageClass] = Math.round((lengthM / coveredM) * 1000) / 10;
+    dryHoursSum += getDryHours(drainageClass) * lengthM;
+  }
+
+  return {
+    soil_drainage_class: largest(lengthByClass),
+    soil_drainage_distribution: distribution,
+    base_dry_hours: Math.round(dryHoursSum / coveredM),
+    soil_sand_pct: weightedMean(weighted.map(({ component, lengthM }) => ({ value: component.sand_pct, lengthM }))),
+    soil_silt_pct: weightedMean(weighted.map(({ component, lengthM }) => ({ value: component.silt_pct, lengthM }))),
+    soil_clay_pct: weightedMean(weighted.map(({ component, lengthM }) => ({ value: component.clay_pct, lengthM }))),
+    soil_hydrologic_group: largest(lengthByGroup),
+    soil_surface_texture: largest(lengthByTexture),
+    coverage: Math.round((coveredM / totalM) * 100) / 100,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Local gSSURGO / STATSGO2 extract, read offline
+ *
+ * Expects a directory exported from a gSSURGO (or STATSGO2) File Geodatabase
+ * with ogr2ogr, clipped to the area of interest:
+ *
+ *   mupolygon.geojson   map unit polygons in WGS84, with a MUKEY property
+ *   component.csv       mukey, cokey, majcompflag, comppct_r, drainagecl, hydgrp
+ *   chorizon.csv        cokey, chkey, hzdept_r, sandtotal_r, silttotal_r, claytotal_r
+ *   chtexturegrp.csv    chkey, texdesc, rvindicator
+ *
+ * Points are matched to polygons locally (through a coarse grid of bounding
+ * boxes), and components are picked as the API query picks them: major
+ * components with a drainage class, texture from the uppermost horizon with
+ * particle-size data.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as turf from '@turf/turf';
+import { SoilComponent, SoilSource } from './types';
+
+// Grid cell size of the polygon index
+const INDEX_CELL_DEG = 0.05;
+
+// Polygon or MultiPolygon feature, as turf takes it
+type PolygonFeature = Parameters<typeof turf.booleanPointInPolygon>[1];
+
+interface MapUnitPolygon {
+  mukey: string;
+  feature: PolygonFeature;
+  bbox: [number, number, number, number];
+}
+
+interface LocalExtract {
+  polygons: MapUnitPolygon[];
+  index: Map<string, number[]>;
+  components: Map<string, SoilComponent[]>;
+}
+
+// Rows of a CSV file with a header line, keyed by lower-case column name
+function readCsv(file: string): Array<Record<string, string>> {
+  const text = fs.readFileSync(file, 'utf-8');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((v) => v !== ''));
+  const columns = (header ?? []).map((c) => c.trim().toLowerCase());
+  return body.map((values) => Object.fromEntries(columns.map((c, i) => [c, values[i] ?? ''])));
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function cellKey(x: number, y: number): string {
+  return `${Math.floor(x / INDEX_CELL_DEG)},${Math.floor(y / INDEX_CELL_DEG)}`;
+}
+
+// Map unit polygons and a grid index over their bounding boxes
+function loadPolygons(file: string): Pick<LocalExtract, 'polygons' | 'index'> {
+  const collection = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const polygons: MapUnitPolygon[] = [];
+  const index = new Map<string, number[]>();
+
+  for (const feature of collection.features ?? []) {
+    const type = feature.geometry?.type;
+    const mukey = feature.properties?.MUKEY ?? feature.properties?.mukey;
+    if ((type !== 'Polygon' && type !== 'MultiPolygon') || mukey === undefined || mukey === null) continue;
+
+    const bbox = turf.bbox(feature) as [number, number, number, number];
+    const id = polygons.length;
+    polygons.push({ mukey: String(mukey), feature, bbox });
+
+    const [minX, minY, maxX, maxY] = bbox;
+    for (let cx = Math.floor(minX / INDEX_CELL_DEG); cx <= Math.floor(maxX / INDEX_CELL_DEG); cx++) {
+      for (let cy = Math.floor(minY / INDEX_CELL_DEG); cy <= Math.floor(maxY / INDEX_CELL_DEG); cy++) {
+        const key = `${cx},${cy}`;
+        index.set(key, [...(index.get(key) ?? []), id]);
+      }
+    }
+  }
+
+  return { polygons, index };
+}
+
+// Major components with a drainage class, by map unit
+function loadComponents(dir: string): Map<string, SoilComponent[]> {
+  // Uppermost horizon with particle-size data per component
+  const surface = new Map<string, Record<string, string>>();
+  for (const horizon of readCsv(path.join(dir, 'chorizon.csv'))) {
+    if (numberOrNull(horizon.claytotal_r) === null) continue;
+    const current = surface.get(horizon.cokey);
+    if (!current || (numberOrNull(horizon.hzdept_r) ?? 0) < (numberOrNull(current.hzdept_r) ?? 0)) {
+      surface.set(horizon.cokey, horizon);
+    }
+  }
+
+  // Representative texture per horizon
+  const textures = new Map<string, string>();
+  for (const group of readCsv(path.join(dir, 'chtexturegrp.csv'))) {
+    if (group.rvindicator?.trim() === 'Yes' && group.texdesc) textures.set(group.chkey, group.texdesc);
+  }
+
+  const components = new Map<string, SoilComponent[]>();
+  for (const c of readCsv(path.join(dir, 'component.csv'))) {
+    if (c.majcompflag?.trim() !== 'Yes' || !c.drainagecl) continue;
+    const horizon = surface.get(c.cokey);
+    components.set(c.mukey, [...(components.get(c.mukey) ?? []), {
+      drainage_class: c.drainagecl,
+      comppct: numberOrNull(c.comppct_r) ?? 0,
+      hydrologic_group: c.hydgrp || null,
+      surface_texture: horizon ? textures.get(horizon.chkey) ?? null : null,
+      sand_pct: numberOrNull(horizon?.sandtotal_r),
+      silt_pct: numberOrNull(horizon?.silttotal_r),
+      clay_pct: numberOrNull(horizon?.claytotal_r),
+    }]);
+  }
+  return components;
+}
+
+export function localSoilSource(dir: string): SoilSource {
+  let extract: LocalExtract | null = null;
+  const load = (): LocalExtract => {
+    if (!extract) {
+      console.log(`Loading soil extract from ${dir}...`);
+      extract = {
+        ...loadPolygons(path.join(dir, 'mupolygon.geojson')),
+        components: loadComponents(dir),
+      };
+      console.log(`  ${extract.polygons.length} map unit polygons, ${extract.components.size} map units with components`);
+    }
+    return extract;
+  };
+
+  return {
+    name: 'local',
+    async mukeysAt(points) {
+      const { polygons, index } = load();
+      return points.map(({ lon, lat }) => {
+        const point = turf.point([lon, lat]);
+        for (const id of index.get(cellKey(lon, lat)) ?? []) {
+          const { mukey, feature, bbox } = polygons[id];
+          if (lon < bbox[0] || lat < bbox[1] || lon > bbox[2] || lat > bbox[3]) continue;
+          if (turf.booleanPointInPolygon(point, feature)) return mukey;
+        }
+        return null;
+      });
+    },
+    async components(mukeys) {
+      const { components } = load();
+      return new Map(mukeys.map((mukey) => [mukey, components.get(mukey) ?? []]));
+    },
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * USDA Soil Data Access (SSURGO) REST API source
+ *
+ * Points are resolved to map unit keys (mukeys) in one query per batch, and
+ * the components of those map units are fetched in another, so a trail costs
+ * two requests however many points it is sampled at. Texture comes from each
+ * component's uppermost horizon with particle-size data (the tread), skipping
+ * organic litter layers, which have none.
+ */
+
+import { SoilComponent, SoilSource } from './types';
+
+// SSURGO REST API endpoint
+const SSURGO_API_URL = 'https://sdmdataaccess.nrcs.usda.gov/Tabular/post.rest';
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 5000;
+
+// Keep queries well under the service's size limits
+const POINTS_PER_QUERY = 25;
+const MUKEYS_PER_QUERY = 100;
+
+// SDA returns every value as a string, empty or null when missing
+function numberOrNull(value: string | null): number | null {
+  if (value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Run a query and return its rows. SDA answers with an array of string
+// arrays under Table, or no Table when nothing matched. Throws once
+// retries are exhausted.
+async function runQuery(query: string): Promise<string[][]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(SSURGO_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: `query=${encodeURIComponent(query)}&format=JSON`,
+      });
+
+      if (!response.ok) {
+        throw new Error(`SSURGO API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return Array.isArray(data.Table) ? data.Table : [];
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) throw error;
+      console.error(`  Attempt ${attempt} failed:`, error);
+      await new Promise((r) => setTimeout(r, RETRY_DELAY_MS));
+    }
+  }
+}
+
+// Map unit key at each point, null outside the survey
+async function queryMukeys(points: Array<{ lon: number; lat: number }>): Promise<Array<string | null>> {
+  const mukeys: Array<string | null> = points.map(() => null);
+
+  for (let start = 0; start < points.length; start += POINTS_PER_QUERY) {
+    // Note: SSURGO expects lon/lat (x/y) order in WKT
+    const query = points
+      .slice(start, start + POINTS_PER_QUERY)
+      .map((p, i) =>
+        `SELECT ${start + i} AS point, mukey FROM SDA_Get_Mukey_from_intersection_with_WktWgs84('POINT(${p.lon} ${p.lat})')`
+      )
+      .join(' UNION ALL ');
+
+    for (const [point, mukey] of await runQuery(query)) {
+      const index = Number(point);
+      // A point on a map unit boundary can hit both; keep the first
+      if (mukeys[index] === null && mukey) mukeys[index] = String(mukey);
+    }
+  }
+
+  return mukeys;
+}
+
+// Major components with a drainage class, by map unit
+async function queryComponents(mukeys: string[]): Promise<Map<string, SoilComponent[]>> {
+  const components = new Map<string, SoilComponent[]>(mukeys.map((mukey) => [mukey, []]));
+  const keys = mukeys.filter((mukey) => /^\d+$/.test(mukey));
+
+  for (let start = 0; start < keys.length; start += MUKEYS_PER_QUERY) {
+    const query = `
+      SELECT c.mukey, c.drainagecl, c.comppct_r, c.hydgrp,
+        ch.sandtotal_r, ch.silttotal_r, ch.claytotal_r, tg.texdesc
+      FROM component c
+      LEFT JOIN chorizon ch ON ch.chkey = (
+        SELECT TOP 1 h.chkey FROM chorizon h
+        WHERE h.cokey = c.cokey AND h.claytotal_r IS NOT NULL
+        ORDER BY h.hzdept_r
+      )
+      LEFT JOIN chtexturegrp tg ON tg.chkey = ch.chkey AND tg.rvindicator = 'Yes'
+      WHERE c.mukey IN (${keys.slice(start, start + MUKEYS_PER_QUERY).map((k) => `'${k}'`).join(', ')})
+      AND c.majcompflag = 'Yes'
+      AND c.drainagecl IS NOT NULL
+    `.trim().replace(/\s+/g, ' ');
+
+    for (const [mukey, drainageClass, comppct, hydgrp, sand, silt, clay, texture] of await runQuery(query)) {
+      components.get(String(mukey))?.push({
+        drainage_class: drainageClass,
+        comppct: Number(comppct) || 0,
+        hydrologic_group: hydgrp || null,
+        surface_texture: texture || null,
+        sand_pct: numberOrNull(sand),
+        silt_pct: numberOrNull(silt),
+        clay_pct: numberOrNull(clay),
+      });
+    }
+  }
+
+  return components;
+}
+
+export function ssurgoSource(): SoilSource {
+  return {
+    name: 'ssurgo',
+    mukeysAt: queryMukeys,
+    components: queryComponents,
+  };
+}
@@ -0,0 +1,20 @@
+// Major component of a map unit with a drainage class
+export interface SoilComponent {
+  drainage_class: string;
+  comppct: number;                  // percent of the map unit
+  hydrologic_group: string | null;  // A (sandy, fast infiltration) to D (clayey)
+  surface_texture: string | null;   // e.g. "Gravelly sandy loam"
+  sand_pct: number | null;          // surface horizon, by weight
+  silt_pct: number | null;
+  clay_pct: number | null;
+}
+
+// A source of SSURGO map units. mukeysAt returns one map unit key per
+// point, in order, null outside the survey; components returns the major
+// components of each requested map unit (empty when it has none). Both throw
+// when the source can't be read.
+export interface SoilSource {
+  name: string;
+  mukeysAt(points: Array<{ lon: number; lat: number }>): Promise<Array<string | null>>;
+  components(mukeys: string[]): Promise<Map<string, SoilComponent[]>>;
+}
@@ -0,0 +1,54 @@
+/**
+ * Slope and aspect from a local DEM tile set
+ *
+ * Expects single-band elevation GeoTIFFs, such as the USGS 3DEP
+ * 1/3 arc-second (~10 m) 1° tiles (USGS_13_n40w106.tif). Slope and aspect
+ * come from the 3×3 neighbourhood of each point (Horn's method, as in GDAL
+ * and ArcGIS).
+ */
+
+import { RasterTile, readNeighbourhoods } from './raster';
+
+const METRES_PER_DEGREE_LAT = 110540;
+const METRES_PER_DEGREE_LON_AT_EQUATOR = 111320;
+
+export interface TerrainPoint {
+  slope_deg: number;
+  aspect_deg: number;  // direction the slope faces, clockwise from north
+}
+
+// Horn slope and aspect from a 3×3 window (row-major, north row first)
+function hornTerrain(z: number[], lat: number, tile: RasterTile): TerrainPoint {
+  const [a, b, c, d, , f, g, h, i] = z;
+  const dx = tile.geographic
+    ? tile.resX * METRES_PER_DEGREE_LON_AT_EQUATOR * Math.cos((lat * Math.PI) / 180)
+    : tile.resX;
+  const dy = tile.geographic ? tile.resY * METRES_PER_DEGREE_LAT : tile.resY;
+
+  // Rise to the east and to the south
+  const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * dx);
+  const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * dy);
+
+  const slope = (Math.atan(Math.hypot(dzdx, dzdy)) * 180) / Math.PI;
+  // Downhill points (east, north) = (-dzdx, dzdy)
+  const aspect = (Math.atan2(-dzdx, dzdy) * 180) / Math.PI;
+  return { slope_deg: slope, aspect_deg: (aspect + 360) % 360 };
+}
+
+// Slope and aspect at each point, null where no tile covers it or the DEM
+// has no data
+export function terrainAt(
+  tiles: RasterTile[],
+  points: Array<{ lon: number; lat: number }>
+): Promise<Array<TerrainPoint | null>> {
+  return readNeighbourhoods(tiles, points, 1, (z, tile, index) => hornTerrain(z, points[index].lat, tile));
+}
+
+// Elevation (m) at each point, null where no tile covers it or the DEM has
+// no data
+export function elevationsAt(
+  tiles: RasterTile[],
+  points: Array<{ lon: number; lat: number }>
+): Promise<Array<number | null>> {
+  return readNeighbourhoods(tiles, points, 0, ([z]) => z);
+}
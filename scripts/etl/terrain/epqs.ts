@@ -0,0 +1,96 @@
+/**
+ * USGS Elevation Point Query Service, with a local response cache
+ *
+ * The fallback for elevations where no DEM tile is on disk. One request per
+ * point, so answers are cached by rounded coordinate and re-runs only ask
+ * for points they haven't seen.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// USGS Elevation API endpoint
+const USGS_ELEVATION_URL = 'https://epqs.nationalmap.gov/v1/json';
+
+const MAX_RETRIES = 3;
+const CONCURRENCY = 5;
+
+// EPQS answers this for points outside its coverage
+const NO_DATA = -1000000;
+
+// Elevation (m) by "lon,lat" rounded to ~1 m; null where EPQS had no data
+export type ElevationCache = Record<string, number | null>;
+
+function cacheKey(lon: number, lat: number): string {
+  return `${lon.toFixed(5)},${lat.toFixed(5)}`;
+}
+
+// Query elevation for a single point. Undefined when the request failed,
+// so the point is retried next run rather than cached as missing.
+async function getElevation(lat: number, lon: number): Promise<number | null | undefined> {
+  const url = `${USGS_ELEVATION_URL}?x=${lon}&y=${lat}&units=Meters&wkid=4326`;
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      const value = Number(data.value);
+      return Number.isFinite(value) && value !== NO_DATA ? value : null;
+    } catch {
+      if (attempt < MAX_RETRIES) {
+        await new Promise((r) => setTimeout(r, 1000 * attempt));
+      }
+    }
+  }
+
+  return undefined;
+}
+
+export function loadElevationCache(file: string): ElevationCache {
+  try {
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    }
+  } catch {
+    console.log('Elevation cache unreadable, starting empty');
+  }
+  return {};
+}
+
+export function saveElevationCache(file: string, cache: ElevationCache): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(file, JSON.stringify(cache));
+}
+
+// Elevation at each point from the cache, querying EPQS for the rest
+// unless `query` is off (then uncached points are null). Returns the
+// elevations and how many requests were made.
+export async function epqsElevations(
+  points: Array<{ lon: number; lat: number }>,
+  cache: ElevationCache,
+  query: boolean = true
+): Promise<{ elevations: Array<number | null>; requests: number }> {
+  const missing = query ? points.filter((p) => !(cacheKey(p.lon, p.lat) in cache)) : [];
+
+  for (let b = 0; b < missing.length; b += CONCURRENCY) {
+    await Promise.all(
+      missing.slice(b, b + CONCURRENCY).map(async ({ lon, lat }) => {
+        const elevation = await getElevation(lat, lon);
+        if (elevation !== undefined) cache[cacheKey(lon, lat)] = elevation;
+      })
+    );
+  }
+
+  return {
+    elevations: points.map((p) => cache[cacheKey(p.lon, p.lat)] ?? null),
+    requests: missing.length,
+  };
+}
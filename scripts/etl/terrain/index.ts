@@ -0,0 +1,228 @@
+/**
+ * Terrain along a trail, from local GeoTIFF tile sets
+ *
+ * Aspect is the hillside a trail crosses, not the direction it runs: an
+ * east-west traverse on a north-facing slope is north-facing. Canopy comes
+ * from NLCD tree canopy cover. Points are sampled along the line and each
+ * carries the length it stands for; the same points give the elevation
+ * profile.
+ */
+
+import * as turf from '@turf/turf';
+import { Aspect, AspectDistribution, ElevationProfilePoint } from '../../../src/lib/types';
+import { elevationsAt, terrainAt } from './dem';
+import { RasterTile, readNeighbourhoods } from './raster';
+
+export { openRasterTiles } from './raster';
+export type { RasterTile } from './raster';
+
+// Spacing of sample points (a few DEM pixels at 10 m)
+const SAMPLE_SPACING_M = 30;
+const MAX_SAMPLES = 1000;
+
+// Ground flatter than this doesn't face anywhere
+const FLAT_SLOPE_DEG = 2;
+
+// NLCD tree canopy is 0-100 percent; higher codes mark areas not mapped
+const MAX_CANOPY_PCT = 100;
+
+// Climbs and drops smaller than this are ignored when adding up gain and
+// loss, so DEM noise and sidehill wobble don't count as climbing
+const ELEVATION_NOISE_M = 3;
+
+// Stored profiles are thinned to this many points
+const PROFILE_MAX_POINTS = 200;
+
+const METRES_PER_MILE = 1609.344;
+
+const ASPECTS: Aspect[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export interface TrailTerrain {
+  dominant_aspect: Aspect | null;          // largest share, flat excluded
+  aspect_distribution: AspectDistribution; // percent of covered length
+  slope_mean_deg: number;                  // length-weighted
+  coverage: number;                        // share of length with DEM data
+}
+
+export interface TrailProfile {
+  profile: ElevationProfilePoint[];  // thinned for storage
+  gain_m: number;                    // cumulative, from every sample
+  loss_m: number;
+  min_m: number;
+  max_m: number;
+  coverage: number;                  // share of length with elevation data
+}
+
+export interface TrailCanopy {
+  canopy_cover_pct: number;  // length-weighted mean, whole percent
+  coverage: number;          // share of length with canopy data
+}
+
+// Eight-way aspect for a compass direction
+export function aspectFromDegrees(degrees: number): Aspect {
+  return ASPECTS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+// Points along the parts of a line, each at the middle of the stretch it
+// stands for
+export function samplePoints(
+  parts: number[][][],
+  spacing: number = SAMPLE_SPACING_M,
+  maxSamples: number = MAX_SAMPLES
+): Array<{ lon: number; lat: number; lengthM: number }> {
+  const lines = parts
+    .filter((coords) => coords.length >= 2)
+    .map((coords) => {
+      const line = turf.lineString(coords);
+      return { line, lengthM: turf.length(line, { units: 'meters' }) };
+    })
+    .filter((l) => l.lengthM > 0);
+  const totalM = lines.reduce((sum, l) => sum + l.lengthM, 0);
+  const spacingM = Math.max(spacing, totalM / maxSamples);
+
+  const points: Array<{ lon: number; lat: number; lengthM: number }> = [];
+  for (const { line, lengthM } of lines) {
+    const count = Math.max(1, Math.round(lengthM / spacingM));
+    for (let i = 0; i < count; i++) {
+      const [lon, lat] = turf.along(line, ((i + 0.5) * lengthM) / count, { units: 'meters' }).geometry.coordinates;
+      points.push({ lon, lat, lengthM: lengthM / count });
+    }
+  }
+  return points;
+}
+
+// Aspect distribution and mean slope along a line's parts. Null when no
+// DEM tile covers it.
+export async function terrainAlong(tiles: RasterTile[], parts: number[][][]): Promise<TrailTerrain | null> {
+  if (tiles.length === 0) return null;
+
+  const points = samplePoints(parts);
+  const terrain = await terrainAt(tiles, points);
+
+  const lengthByAspect = new Map<Aspect | 'flat', number>();
+  let coveredM = 0;
+  let totalM = 0;
+  let slopeSum = 0;
+  points.forEach((point, i) => {
+    totalM += point.lengthM;
+    const t = terrain[i];
+    if (!t) return;
+    const key = t.slope_deg < FLAT_SLOPE_DEG ? 'flat' : aspectFromDegrees(t.aspect_deg);
+    lengthByAspect.set(key, (lengthByAspect.get(key) ?? 0) + point.lengthM);
+    coveredM += point.lengthM;
+    slopeSum += t.slope_deg * point.lengthM;
+  });
+  if (coveredM === 0) return null;
+
+  const distribution: AspectDistribution = {};
+  for (const [key, lengthM] of lengthByAspect) {
+    distribution[key] = Math.round((lengthM / coveredM) * 1000) / 10;
+  }
+
+  const dominant = ASPECTS
+    .filter((aspect) => lengthByAspect.has(aspect))
+    .sort((a, b) => lengthByAspect.get(b)! - lengthByAspect.get(a)!)[0] ?? null;
+
+  return {
+    dominant_aspect: dominant,
+    aspect_distribution: distribution,
+    slope_mean_deg: Math.round((slopeSum / coveredM) * 10) / 10,
+    coverage: Math.round((coveredM / totalM) * 100) / 100,
+  };
+}
+
+// Length-weighted tree canopy cover along a line's parts. Null when no
+// canopy tile covers it.
+export async function canopyAlong(tiles: RasterTile[], parts: number[][][]): Promise<TrailCanopy | null> {
+  if (tiles.length === 0) return null;
+
+  const points = samplePoints(parts);
+  const canopy = await readNeighbourhoods(tiles, points, 0, ([value]) =>
+    value >= 0 && value <= MAX_CANOPY_PCT ? value : null
+  );
+
+  let coveredM = 0;
+  let totalM = 0;
+  let canopySum = 0;
+  points.forEach((point, i) => {
+    totalM += point.lengthM;
+    const value = canopy[i];
+    if (value === null) return;
+    coveredM += point.lengthM;
+    canopySum += value * point.lengthM;
+  });
+  if (coveredM === 0) return null;
+
+  return {
+    canopy_cover_pct: Math.round(canopySum / coveredM),
+    coverage: Math.round((coveredM / totalM) * 100) / 100,
+  };
+}
+
+// Elevation profile from elevations at sample points (see samplePoints).
+// Distances run along the parts in order and are scaled to the trail's
+// reported length when given, as segment-trails.ts expects. Null when no
+// point has an elevation.
+export function buildProfile(
+  points: Array<{ lengthM: number }>,
+  elevations: Array<number | null>,
+  lengthMiles?: number | null
+): TrailProfile | null {
+  const totalM = points.reduce((sum, p) => sum + p.lengthM, 0);
+  const miPerM = lengthMiles && totalM > 0 ? lengthMiles / totalM : 1 / METRES_PER_MILE;
+
+  const samples: ElevationProfilePoint[] = [];
+  let coveredM = 0;
+  let alongM = 0;
+  points.forEach((point, i) => {
+    const elevation = elevations[i];
+    if (elevation !== null) {
+      samples.push({
+        distance_mi: Math.round((alongM + point.lengthM / 2) * miPerM * 100) / 100,
+        elevation_m: Math.round(elevation),
+      });
+      coveredM += point.lengthM;
+    }
+    alongM += point.lengthM;
+  });
+  if (samples.length === 0) return null;
+
+  // Count a climb or drop once it clears the noise band
+  let gain = 0;
+  let loss = 0;
+  let anchor = samples[0].elevation_m;
+  for (const { elevation_m } of samples) {
+    if (elevation_m - anchor >= ELEVATION_NOISE_M) {
+      gain += elevation_m - anchor;
+      anchor = elevation_m;
+    } else if (anchor - elevation_m >= ELEVATION_NOISE_M) {
+      loss += anchor - elevation_m;
+      anchor = elevation_m;
+    }
+  }
+
+  const step = Math.ceil(samples.length / PROFILE_MAX_POINTS);
+  const profile = samples.filter((_, i) => i % step === 0 || i === samples.length - 1);
+
+  return {
+    profile,
+    gain_m: Math.round(gain),
+    loss_m: Math.round(loss),
+    min_m: Math.min(...samples.map((s) => s.elevation_m)),
+    max_m: Math.max(...samples.map((s) => s.elevation_m)),
+    coverage: Math.round((coveredM / totalM) * 100) / 100,
+  };
+}
+
+// Elevation profile along a line's parts from DEM tiles. Null when no tile
+// covers it.
+export async function profileAlong(
+  tiles: RasterTile[],
+  parts: number[][][],
+  lengthMiles?: number | null
+): Promise<TrailProfile | null> {
+  if (tiles.length === 0) return null;
+
+  const points = samplePoints(parts);
+  return buildProfile(points, await elevationsAt(tiles, points), lengthMiles);
+}
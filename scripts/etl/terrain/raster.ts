@@ -0,0 +1,248 @@
+/**
+ * Local GeoTIFF tile sets, read offline
+ *
+ * Tiles may be geographic (lat/lon, like the USGS 3DEP DEM) or Albers
+ * equal-area (like NLCD, EPSG:5070 or the same projection spelled out in
+ * GeoKeys). Other projections are skipped with a warning.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fromFile, GeoTIFFImage } from 'geotiff';
+
+// GeoTIFF GeoKey values
+const MODEL_TYPE_PROJECTED = 1;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const CT_ALBERS_EQUAL_AREA = 11;
+const EPSG_CONUS_ALBERS = 5070;
+const USER_DEFINED = 32767;
+
+// GRS 1980 ellipsoid (NAD83)
+const SEMI_MAJOR_M = 6378137;
+const FLATTENING = 1 / 298.257222101;
+
+const DEG = Math.PI / 180;
+
+// Conus Albers (EPSG:5070)
+const CONUS_ALBERS: AlbersParams = {
+  lat1: 29.5,
+  lat2: 45.5,
+  lat0: 23,
+  lon0: -96,
+  falseEasting: 0,
+  falseNorthing: 0,
+};
+
+interface AlbersParams {
+  lat1: number;
+  lat2: number;
+  lat0: number;
+  lon0: number;
+  falseEasting: number;
+  falseNorthing: number;
+}
+
+export interface RasterTile {
+  file: string;
+  image: GeoTIFFImage;
+  geographic: boolean;          // degrees, otherwise metres
+  project: (lon: number, lat: number) => [number, number];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  resX: number;                 // tile units per pixel
+  resY: number;
+  width: number;
+  height: number;
+  noData: number | null;
+}
+
+// Forward ellipsoidal Albers equal-area conic (Snyder, Map Projections:
+// A Working Manual, eqs. 14-3 to 14-6)
+function albersProjection(p: AlbersParams): (lon: number, lat: number) => [number, number] {
+  const e2 = 2 * FLATTENING - FLATTENING * FLATTENING;
+  const e = Math.sqrt(e2);
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  const q = (phi: number) => {
+    const s = Math.sin(phi);
+    return (1 - e2) * (s / (1 - e2 * s * s) - (1 / (2 * e)) * Math.log((1 - e * s) / (1 + e * s)));
+  };
+
+  const m1 = m(p.lat1 * DEG);
+  const m2 = m(p.lat2 * DEG);
+  const q1 = q(p.lat1 * DEG);
+  const q2 = q(p.lat2 * DEG);
+  const n = (m1 * m1 - m2 * m2) / (q2 - q1);
+  const c = m1 * m1 + n * q1;
+  const rho = (phi: number) => (SEMI_MAJOR_M * Math.sqrt(c - n * q(phi))) / n;
+  const rho0 = rho(p.lat0 * DEG);
+
+  return (lon, lat) => {
+    const r = rho(lat * DEG);
+    const theta = n * (lon - p.lon0) * DEG;
+    return [p.falseEasting + r * Math.sin(theta), p.falseNorthing + rho0 - r * Math.cos(theta)];
+  };
+}
+
+// Albers parameters from a tile's GeoKeys, null for any other projection
+function albersParams(geoKeys: Record<string, number | undefined>): AlbersParams | null {
+  if (geoKeys.ProjectedCSTypeGeoKey === EPSG_CONUS_ALBERS) return CONUS_ALBERS;
+  if (geoKeys.ProjectedCSTypeGeoKey !== USER_DEFINED && geoKeys.ProjectedCSTypeGeoKey !== undefined) return null;
+  if (geoKeys.ProjCoordTransGeoKey !== CT_ALBERS_EQUAL_AREA) return null;
+  if (geoKeys.ProjStdParallel1GeoKey === undefined || geoKeys.ProjStdParallel2GeoKey === undefined) return null;
+
+  return {
+    lat1: geoKeys.ProjStdParallel1GeoKey,
+    lat2: geoKeys.ProjStdParallel2GeoKey,
+    lat0: geoKeys.ProjNatOriginLatGeoKey ?? geoKeys.ProjFalseOriginLatGeoKey ?? geoKeys.ProjCenterLatGeoKey ?? 0,
+    lon0: geoKeys.ProjNatOriginLongGeoKey ?? geoKeys.ProjFalseOriginLongGeoKey ?? geoKeys.ProjCenterLongGeoKey ?? 0,
+    falseEasting: geoKeys.ProjFalseEastingGeoKey ?? geoKeys.ProjFalseOriginEastingGeoKey ?? 0,
+    falseNorthing: geoKeys.ProjFalseNorthingGeoKey ?? geoKeys.ProjFalseOriginNorthingGeoKey ?? 0,
+  };
+}
+
+// Open every GeoTIFF in a directory. Empty when the directory doesn't exist.
+export async function openRasterTiles(dir: string): Promise<RasterTile[]> {
+  if (!fs.existsSync(dir)) return [];
+
+  const tiles: RasterTile[] = [];
+  const files = fs.readdirSync(dir).filter((f) => /\.tiff?$/i.test(f)).sort();
+  for (const name of files) {
+    const file = path.join(dir, name);
+    const image = await (await fromFile(file)).getImage();
+    const geoKeys = image.getGeoKeys() ?? {};
+
+    let project: RasterTile['project'] = (lon, lat) => [lon, lat];
+    const geographic = geoKeys.GTModelTypeGeoKey === undefined || geoKeys.GTModelTypeGeoKey === MODEL_TYPE_GEOGRAPHIC;
+    if (!geographic) {
+      const params = geoKeys.GTModelTypeGeoKey === MODEL_TYPE_PROJECTED ? albersParams(geoKeys) : null;
+      if (!params) {
+        console.warn(`  ⚠ ${name}: unsupported projection, skipped`);
+        continue;
+      }
+      project = albersProjection(params);
+    }
+
+    const [minX, minY, maxX, maxY] = image.getBoundingBox();
+    const [resX, resY] = image.getResolution();
+    tiles.push({
+      file,
+      image,
+      geographic,
+      project,
+      minX,
+      minY,
+      maxX,
+      maxY,
+      resX: Math.abs(resX),
+      resY: Math.abs(resY),
+      width: image.getWidth(),
+      height: image.getHeight(),
+      noData: image.getGDALNoData(),
+    });
+  }
+  return tiles;
+}
+
+// Tile and pixel holding a point, keeping `margin` pixels clear of the edge
+export function locatePixel(
+  tiles: RasterTile[],
+  lon: number,
+  lat: number,
+  margin: number = 0
+): { tile: RasterTile; col: number; row: number } | null {
+  for (const tile of tiles) {
+    const [x, y] = tile.project(lon, lat);
+    const col = Math.floor((x - tile.minX) / tile.resX);
+    const row = Math.floor((tile.maxY - y) / tile.resY);
+    if (col >= margin && col < tile.width - margin && row >= margin && row < tile.height - margin) {
+      return { tile, col, row };
+    }
+  }
+  return null;
+}
+
+// Largest window side (pixels) read at once; a long or diagonal trail's
+// bounding box across a tile can run to tens of millions of pixels
+const MAX_WINDOW_PX = 512;
+
+interface PixelHit {
+  index: number;
+  col: number;
+  row: number;
+}
+
+// Split a tile's hits, in point order, into runs of nearby points whose
+// window stays within MAX_WINDOW_PX on each side
+function windowRuns(hits: PixelHit[], margin: number): PixelHit[][] {
+  const limit = MAX_WINDOW_PX - 2 * margin - 1;
+  const runs: PixelHit[][] = [];
+  let run: PixelHit[] = [];
+  let bounds = { minCol: 0, maxCol: 0, minRow: 0, maxRow: 0 };
+
+  for (const hit of hits) {
+    const next = {
+      minCol: Math.min(bounds.minCol, hit.col),
+      maxCol: Math.max(bounds.maxCol, hit.col),
+      minRow: Math.min(bounds.minRow, hit.row),
+      maxRow: Math.max(bounds.maxRow, hit.row),
+    };
+    if (run.length === 0 || next.maxCol - next.minCol > limit || next.maxRow - next.minRow > limit) {
+      if (run.length > 0) runs.push(run);
+      run = [hit];
+      bounds = { minCol: hit.col, maxCol: hit.col, minRow: hit.row, maxRow: hit.row };
+    } else {
+      run.push(hit);
+      bounds = next;
+    }
+  }
+  if (run.length > 0) runs.push(run);
+  return runs;
+}
+
+// Read the pixels around each point, one small window per run of nearby
+// points. `read` gets the (2·margin+1)² neighbourhood, row-major from the
+// north-west corner.
+export async function readNeighbourhoods<T>(
+  tiles: RasterTile[],
+  points: Array<{ lon: number; lat: number }>,
+  margin: number,
+  read: (values: number[], tile: RasterTile, index: number) => T | null
+): Promise<Array<T | null>> {
+  const results: Array<T | null> = points.map(() => null);
+
+  const byTile = new Map<RasterTile, PixelHit[]>();
+  points.forEach((point, index) => {
+    const hit = locatePixel(tiles, point.lon, point.lat, margin);
+    if (!hit) return;
+    const hits = byTile.get(hit.tile) ?? [];
+    hits.push({ index, col: hit.col, row: hit.row });
+    byTile.set(hit.tile, hits);
+  });
+
+  for (const [tile, tileHits] of byTile) {
+    for (const hits of windowRuns(tileHits, margin)) {
+      const left = Math.min(...hits.map((p) => p.col)) - margin;
+      const top = Math.min(...hits.map((p) => p.row)) - margin;
+      const right = Math.max(...hits.map((p) => p.col)) + margin + 1;
+      const bottom = Math.max(...hits.map((p) => p.row)) + margin + 1;
+      const rasters = await tile.image.readRasters({ window: [left, top, right, bottom], samples: [0] });
+      const band = rasters[0] as ArrayLike<number>;
+      const width = right - left;
+
+      for (const { index, col, row } of hits) {
+        const values: number[] = [];
+        for (let dr = -margin; dr <= margin; dr++) {
+          for (let dc = -margin; dc <= margin; dc++) {
+            values.push(band[(row + dr - top) * width + (col + dc - left)]);
+          }
+        }
+        if (values.some((v) => !Number.isFinite(v) || v === tile.noData)) continue;
+        results[index] = read(values, tile, index);
+      }
+    }
+  }
+
+  return results;
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { summarizeConditions } from '@/lib/model';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -35,6 +36,10 @@ export async function GET(request: NextRequest) {
         hours_since_rain,
         effective_dry_hours,
         factors,
+        explanation,
+        segments,
+        windows,
+        forecast,
         predicted_at,
         trails!inner (
           name,
@@ -91,14 +96,15 @@ export async function GET(request: NextRequest) {
       hours_since_rain: p.hours_since_rain,
       effective_dry_hours: p.effective_dry_hours,
       factors: p.factors,
+      explanation: p.explanation,
+      segments: p.segments || [],
+      windows: p.windows || [],
+      forecast: p.forecast || [],
       geometry: p.trails.geometry,
     }));
     
     // Build summary from returned data
-    const summary = trails.reduce((acc: any, t: any) => {
-      acc[t.condition] = (acc[t.condition] || 0) + 1;
-      return acc;
-    }, {});
+    const summary = summarizeConditions(trails);
     
     return NextResponse.json({
       generated_at: meta?.predicted_at || new Date().toISOString(),
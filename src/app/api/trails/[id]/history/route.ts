@@ -0,0 +1,66 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { HISTORY_RETENTION_DAYS, localDate } from '@/lib/model';
+import { TrailHistoryDay } from '@/lib/types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+// Daily condition, confidence and weather for one trail, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const trailId = parseInt(id);
+  if (!Number.isInteger(trailId)) {
+    return NextResponse.json({ error: 'Invalid trail id' }, { status: 400 });
+  }
+
+  const requested = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_HISTORY_DAYS));
+  const days = Math.min(HISTORY_RETENTION_DAYS, Math.max(1, Number.isNaN(requested) ? DEFAULT_HISTORY_DAYS : requested));
+
+  const since = new Date();
+  since.setDate(since.getDate() - days + 1);
+
+  try {
+    const { data, error } = await supabase
+      .from('trail_prediction_history')
+      .select('date, condition, confidence, soil_moisture_pct, precip_24h_mm, temp_max_c, temp_min_c')
+      .eq('trail_id', trailId)
+      .gte('date', localDate(since))
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // DECIMAL columns come back as strings
+    const toNumber = (value: string | number | null) => (value === null ? null : Number(value));
+    const history: TrailHistoryDay[] = (data || []).map((d) => ({
+      date: d.date,
+      condition: d.condition,
+      confidence: d.confidence,
+      soil_moisture_pct: d.soil_moisture_pct,
+      precip_24h_mm: toNumber(d.precip_24h_mm),
+      temp_max_c: toNumber(d.temp_max_c),
+      temp_min_c: toNumber(d.temp_min_c),
+    }));
+
+    return NextResponse.json({ trail_id: trailId, days, history });
+  } catch (err) {
+    console.error('API error:', err);
+    return NextResponse.json(
+      { error: 'Failed to fetch trail history' },
+      { status: 500 }
+    );
+  }
+}
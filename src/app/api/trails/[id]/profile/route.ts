@@ -0,0 +1,54 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { TrailProfileResponse } from '@/lib/types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Elevation profile for one trail, kept out of the predictions list since
+// only the trail page draws it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const trailId = parseInt(id);
+  if (!Number.isInteger(trailId)) {
+    return NextResponse.json({ error: 'Invalid trail id' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('trails')
+      .select('elevation_profile, elevation_gain, elevation_loss')
+      .eq('id', trailId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Trail not found' }, { status: 404 });
+    }
+
+    const response: TrailProfileResponse = {
+      trail_id: trailId,
+      profile: data.elevation_profile ?? [],
+      gain_m: data.elevation_gain,
+      loss_m: data.elevation_loss,
+    };
+    return NextResponse.json(response);
+  } catch (err) {
+    console.error('API error:', err);
+    return NextResponse.json(
+      { error: 'Failed to fetch elevation profile' },
+      { status: 500 }
+    );
+  }
+}
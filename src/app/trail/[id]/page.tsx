@@ -3,8 +3,31 @@
 import { useState, useEffect, use } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { TrailPrediction, CONDITION_LABELS, ASPECT_MODIFIERS } from '@/lib/types';
+import { ExplanationFactor, TrailPrediction, CONDITION_LABELS, DAY_WINDOW_LABELS } from '@/lib/types';
+import {
+  EXPLANATION_FACTOR_LABELS,
+  getForecastOutlook,
+  formatConfidenceFactors,
+  formatPrecipTypes,
+  formatSoilTexture,
+  formatWeatherQuality,
+  isWetDamageNow,
+  WET_DAMAGE_WARNING,
+  formatForecastDay,
+  formatForecastOutlook,
+  formatLapseRate,
+  formatMeltOutDate,
+  formatModifierInput,
+  formatMultiplier,
+  formatReportEffect,
+  formatStations,
+  formatThreshold,
+  formatWindowHour,
+  formatWorstSection,
+} from '@/lib/predictions';
 import { ConditionBadge } from '@/components/ConditionBadge';
+import { ConditionHistory } from '@/components/ConditionHistory';
+import { ElevationProfile } from '@/components/ElevationProfile';
 import { 
   ArrowLeft, 
   Mountain, 
@@ -12,14 +35,31 @@ import {
   CloudRain, 
   Layers, 
   Clock,
+  CalendarDays,
   ThumbsUp,
   X,
   Droplets,
   Snowflake,
   CheckCircle,
-  Search
+  MessageSquare,
+  Search,
+  TriangleAlert,
+  Gauge,
+  Trees,
+  Thermometer,
+  ThermometerSnowflake,
+  MapPin,
+  Target
 } from 'lucide-react';
 
+// Icon and full Tailwind classes for each dry-time modifier
+const MODIFIER_ICONS: Record<ExplanationFactor, { icon: typeof Sun; background: string; text: string }> = {
+  aspect: { icon: Sun, background: 'bg-yellow-500/10', text: 'text-yellow-500' },
+  elevation: { icon: Mountain, background: 'bg-blue-500/10', text: 'text-blue-500' },
+  canopy: { icon: Trees, background: 'bg-emerald-500/10', text: 'text-emerald-500' },
+  drying_weather: { icon: Thermometer, background: 'bg-orange-500/10', text: 'text-orange-500' },
+};
+
 // Dynamic import for the mini map
 const TrailMap = dynamic(
   () => import('@/components/TrailMap').then((mod) => mod.TrailMap),
@@ -99,20 +139,12 @@ export default function TrailDetailPage({ params }: PageProps) {
     );
   }
 
-  const elevationMinFt = trail.factors.elevation_min
-    ? Math.round(trail.factors.elevation_min * 3.28084)
-    : null;
-  const elevationMaxFt = trail.factors.elevation_max
-    ? Math.round(trail.factors.elevation_max * 3.28084)
-    : null;
-
-  const aspectExplanation = trail.factors.aspect
-    ? ASPECT_MODIFIERS[trail.factors.aspect] < 1
-      ? 'dries faster (more sun exposure)'
-      : ASPECT_MODIFIERS[trail.factors.aspect] > 1
-      ? 'dries slower (less sun exposure)'
-      : 'average drying rate'
-    : null;
+  // Predictions made before explanations were stored have none
+  const explanation = trail.explanation ?? null;
+
+  const windows = trail.windows ?? [];
+  const forecast = trail.forecast ?? [];
+  const outlook = getForecastOutlook(trail);
 
   return (
     <div className="max-w-4xl mx-auto p-4 pb-8 bg-[var(--background)]">
@@ -157,6 +189,68 @@ export default function TrailDetailPage({ params }: PageProps) {
         </div>
       </div>
 
+      {/* Today by time of day */}
+      {windows.length > 0 && (
+        <div className="card p-5 mb-6">
+          <h2 className="text-lg font-semibold text-[var(--foreground)] mb-4">
+            Today
+          </h2>
+          <div className="grid grid-cols-3 gap-2">
+            {windows.map((w) => (
+              <div
+                key={w.window}
+                className="flex flex-col items-center gap-1.5 rounded-xl bg-[var(--background-secondary)] p-3"
+              >
+                <span className="text-xs font-medium text-[var(--foreground-muted)]">
+                  {DAY_WINDOW_LABELS[w.window]} · {formatWindowHour(w.window)}
+                </span>
+                <ConditionBadge condition={w.condition} size="sm" />
+                <span className="text-xs text-[var(--foreground-muted)]">
+                  {w.frozen ? 'Frozen solid' : `${w.confidence}%`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Forecast outlook */}
+      {forecast.length > 0 && (
+        <div className="card p-5 mb-6">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-semibold text-[var(--foreground)]">
+              {forecast.length}-Day Outlook
+            </h2>
+            {outlook && (
+              <div className="flex items-center gap-1.5 text-sm font-medium text-[var(--foreground-secondary)]">
+                <CalendarDays className="w-4 h-4 text-[var(--foreground-muted)]" />
+                {formatForecastOutlook(outlook)}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+            {forecast.map((day) => (
+              <div
+                key={day.date}
+                className="flex flex-col items-center gap-1.5 rounded-xl bg-[var(--background-secondary)] p-2"
+              >
+                <span className="text-xs font-medium text-[var(--foreground-muted)]">
+                  {formatForecastDay(day.date)}
+                </span>
+                <ConditionBadge condition={day.condition} size="sm" showLabel={false} />
+                <span className="text-xs text-[var(--foreground-muted)]">{day.confidence}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Elevation profile */}
+      <ElevationProfile trailId={trail.id} condition={trail.condition} segments={trail.segments} />
+
+      {/* Condition history */}
+      <ConditionHistory trailId={trail.id} />
+
       {/* Mini map */}
       <div className="card p-5 mb-6">
         <h2 className="text-lg font-semibold text-[var(--foreground)] mb-4">Trail Location</h2>
@@ -187,44 +281,84 @@ export default function TrailDetailPage({ params }: PageProps) {
               </div>
               <div className="text-sm text-[var(--foreground-muted)]">
                 Base drying time: {trail.factors.base_dry_hours} hours
+                {trail.factors.soil_texture && ` · ${formatSoilTexture(trail.factors.soil_texture)}`}
               </div>
             </div>
           </div>
 
-          {/* Aspect */}
-          {trail.factors.aspect && (
+          {/* Clay tread that ruts when ridden wet */}
+          {trail.factors.wet_damage_risk && (
             <div className="flex items-start gap-4">
-              <div className="w-10 h-10 rounded-xl bg-yellow-500/10 flex items-center justify-center flex-shrink-0">
-                <Sun className="w-5 h-5 text-yellow-500" />
+              <div className="w-10 h-10 rounded-xl bg-red-500/10 flex items-center justify-center flex-shrink-0">
+                <TriangleAlert className="w-5 h-5 text-red-500" />
               </div>
               <div>
                 <div className="font-medium text-[var(--foreground)]">
-                  Aspect: {trail.factors.aspect}-facing
+                  {WET_DAMAGE_WARNING}
                 </div>
                 <div className="text-sm text-[var(--foreground-muted)]">
-                  {aspectExplanation}
+                  {isWetDamageNow(trail)
+                    ? 'High-clay soil is wet now; riding it leaves ruts that last all season'
+                    : 'High-clay soil; it has to dry further than other trails before it is rated rideable'}
                 </div>
               </div>
             </div>
           )}
 
-          {/* Elevation */}
-          {elevationMinFt && (
+          {/* Dry-time modifiers */}
+          {explanation?.modifiers.map((modifier) => {
+            const { icon: Icon, background, text } = MODIFIER_ICONS[modifier.factor];
+            return (
+              <div key={modifier.factor} className="flex items-start gap-4">
+                <div className={`w-10 h-10 rounded-xl ${background} flex items-center justify-center flex-shrink-0`}>
+                  <Icon className={`w-5 h-5 ${text}`} />
+                </div>
+                <div>
+                  <div className="font-medium text-[var(--foreground)]">
+                    {EXPLANATION_FACTOR_LABELS[modifier.factor]}: {formatModifierInput(modifier)}
+                  </div>
+                  <div className="text-sm text-[var(--foreground-muted)]">
+                    {formatMultiplier(modifier.multiplier)}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Weather source and lapse rate */}
+          {explanation && (
             <div className="flex items-start gap-4">
-              <div className="w-10 h-10 rounded-xl bg-blue-500/10 flex items-center justify-center flex-shrink-0">
-                <Mountain className="w-5 h-5 text-blue-500" />
+              <div className="w-10 h-10 rounded-xl bg-indigo-500/10 flex items-center justify-center flex-shrink-0">
+                <MapPin className="w-5 h-5 text-indigo-500" />
               </div>
               <div>
                 <div className="font-medium text-[var(--foreground)]">
-                  Elevation: {elevationMinFt.toLocaleString()}&apos;
-                  {elevationMaxFt && elevationMaxFt !== elevationMinFt && (
-                    <> - {elevationMaxFt.toLocaleString()}&apos;</>
-                  )}
+                  Weather: {explanation.weather.stations.length === 1
+                    ? '1 grid cell'
+                    : `${explanation.weather.stations.length} grid cells`}
+                  {!explanation.weather.hourly && ' (daily data)'}
                 </div>
                 <div className="text-sm text-[var(--foreground-muted)]">
-                  {(trail.factors.elevation_min ?? 0) > 2438
-                    ? 'Higher elevation = slower drying'
-                    : 'Lower elevation = faster drying'}
+                  {formatStations(explanation.weather.stations)}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {explanation && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-sky-500/10 flex items-center justify-center flex-shrink-0">
+                <ThermometerSnowflake className="w-5 h-5 text-sky-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Lapse Rate: {formatLapseRate(explanation.lapse_rate)}
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  from weather at {explanation.weather.elevation_m.toLocaleString()} m up to{' '}
+                  {explanation.lapse_rate.elevation_low_m === explanation.lapse_rate.elevation_high_m
+                    ? `${explanation.lapse_rate.elevation_low_m.toLocaleString()} m`
+                    : `${explanation.lapse_rate.elevation_low_m.toLocaleString()}–${explanation.lapse_rate.elevation_high_m.toLocaleString()} m`}
                 </div>
               </div>
             </div>
@@ -240,11 +374,132 @@ export default function TrailDetailPage({ params }: PageProps) {
                 Recent Precipitation: {trail.factors.recent_precip_mm.toFixed(1)} mm
               </div>
               <div className="text-sm text-[var(--foreground-muted)]">
-                in the last 7 days
+                {trail.factors.recent_precip_types
+                  ? `${formatPrecipTypes(trail.factors.recent_precip_types)} in the last 7 days`
+                  : 'in the last 7 days'}
               </div>
             </div>
           </div>
 
+          {/* Soil moisture */}
+          <div className="flex items-start gap-4">
+            <div className="w-10 h-10 rounded-xl bg-blue-500/10 flex items-center justify-center flex-shrink-0">
+              <Droplets className="w-5 h-5 text-blue-500" />
+            </div>
+            <div>
+              <div className="font-medium text-[var(--foreground)]">
+                Soil Moisture: {trail.factors.soil_moisture_pct}%
+              </div>
+              <div className="text-sm text-[var(--foreground-muted)]">
+                of saturation, from hourly rain and drying
+              </div>
+            </div>
+          </div>
+
+          {/* Threshold behind the model condition */}
+          {explanation && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-rose-500/10 flex items-center justify-center flex-shrink-0">
+                <Target className="w-5 h-5 text-rose-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Threshold: {formatThreshold(explanation.threshold)}
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {CONDITION_LABELS[explanation.threshold.condition]} on the other side
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Worst section of a segmented trail */}
+          {trail.factors.worst_section && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-orange-500/10 flex items-center justify-center flex-shrink-0">
+                <TriangleAlert className="w-5 h-5 text-orange-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Worst Section: {formatWorstSection(trail.factors.worst_section)}
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {trail.segments.length} sections predicted separately; most of the trail is {CONDITION_LABELS[trail.condition].toLowerCase()}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Snowpack */}
+          {trail.factors.snowpack && Math.max(trail.factors.snowpack.swe_low_mm, trail.factors.snowpack.swe_high_mm) > 0 && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-sky-500/10 flex items-center justify-center flex-shrink-0">
+                <Snowflake className="w-5 h-5 text-sky-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Snowpack: {trail.factors.snowpack.swe_low_mm.toFixed(0)}–{trail.factors.snowpack.swe_high_mm.toFixed(0)} mm water
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {trail.factors.snowpack.melt_out_date
+                    ? `bottom to top, melt-out expected ${formatMeltOutDate(trail.factors.snowpack.melt_out_date)}`
+                    : 'bottom to top, not currently melting'}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Recent rider reports */}
+          {trail.factors.recent_reports && trail.factors.recent_reports.count > 0 && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-violet-500/10 flex items-center justify-center flex-shrink-0">
+                <MessageSquare className="w-5 h-5 text-violet-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Rider Reports: {trail.factors.recent_reports.count} in the last 3 days
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {formatReportEffect(trail.factors.recent_reports)}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Confidence breakdown */}
+          {trail.factors.confidence && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-green-500/10 flex items-center justify-center flex-shrink-0">
+                <Gauge className="w-5 h-5 text-green-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Confidence: {trail.confidence}%
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {formatConfidenceFactors(trail.factors.confidence)}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Weather data quality */}
+          {trail.factors.weather_quality && trail.factors.weather_quality !== 'ok' && (
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-xl bg-gray-500/10 flex items-center justify-center flex-shrink-0">
+                <TriangleAlert className="w-5 h-5 text-gray-500" />
+              </div>
+              <div>
+                <div className="font-medium text-[var(--foreground)]">
+                  Weather Data
+                </div>
+                <div className="text-sm text-[var(--foreground-muted)]">
+                  {formatWeatherQuality(trail.factors.weather_quality)}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Effective dry time */}
           <div className="mt-6 pt-5 border-t border-[var(--border)]">
             <div className="bg-[var(--background-secondary)] rounded-xl p-5">
@@ -255,7 +510,7 @@ export default function TrailDetailPage({ params }: PageProps) {
                 ~{trail.effective_dry_hours} hours
               </div>
               <div className="text-sm text-[var(--foreground-muted)] mt-1">
-                after significant rain ({'>'}2.5mm)
+                from saturated soil at recent drying rates
               </div>
             </div>
           </div>
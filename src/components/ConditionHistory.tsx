@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { CONDITION_COLORS, CONDITION_LABELS, TrailHistoryDay, TrailHistoryResponse } from '@/lib/types';
+
+const RANGES = [30, 90] as const;
+type HistoryRange = (typeof RANGES)[number];
+
+interface ConditionHistoryProps {
+  trailId: number;
+}
+
+// Strip chart of daily predicted condition under the rain that preceded it,
+// so riders can see how fast a trail dries out after a storm
+export function ConditionHistory({ trailId }: ConditionHistoryProps) {
+  const [range, setRange] = useState<HistoryRange>(30);
+  const [history, setHistory] = useState<TrailHistoryDay[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadHistory() {
+      try {
+        const response = await fetch(`/api/trails/${trailId}/history?days=${range}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: TrailHistoryResponse = await response.json();
+        if (!cancelled) setHistory(data.history);
+      } catch (error) {
+        console.error('Error loading trail history:', error);
+        if (!cancelled) setHistory([]);
+      }
+    }
+
+    setHistory(null);
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [trailId, range]);
+
+  // One slot per day in the range, empty where no prediction was archived
+  const byDate = new Map((history ?? []).map((d) => [d.date, d]));
+  const dates = Array.from({ length: range }, (_, i) => format(subDays(new Date(), range - 1 - i), 'yyyy-MM-dd'));
+  const maxRain = Math.max(1, ...(history ?? []).map((d) => d.precip_24h_mm ?? 0));
+
+  return (
+    <div className="card p-5 mb-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-[var(--foreground)]">Condition History</h2>
+        <div className="flex rounded-lg bg-[var(--background-secondary)] p-0.5">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+                range === r
+                  ? 'bg-[var(--background)] text-[var(--foreground)] shadow-sm'
+                  : 'text-[var(--foreground-muted)] hover:text-[var(--foreground)]'
+              }`}
+            >
+              {r} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {history === null ? (
+        <div className="h-20 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-5 w-5 border-2 border-green-500 border-t-transparent" />
+        </div>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-[var(--foreground-muted)]">
+          No history yet. Predictions are archived once a day.
+        </p>
+      ) : (
+        <>
+          {/* Rain in the 24 hours before each prediction */}
+          <div className="flex items-end gap-px h-12">
+            {dates.map((date) => {
+              const rain = byDate.get(date)?.precip_24h_mm ?? 0;
+              return (
+                <div key={date} className="flex-1 h-full flex items-end">
+                  <div
+                    className="w-full rounded-t-sm bg-cyan-500/70"
+                    style={{ height: `${(rain / maxRain) * 100}%` }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Predicted condition */}
+          <div className="flex gap-px h-5 mt-1">
+            {dates.map((date) => {
+              const day = byDate.get(date);
+              return (
+                <div
+                  key={date}
+                  className="flex-1 rounded-sm bg-[var(--background-secondary)]"
+                  style={day ? { backgroundColor: CONDITION_COLORS[day.condition] } : undefined}
+                  title={
+                    day
+                      ? `${format(parseISO(date), 'MMM d')}: ${CONDITION_LABELS[day.condition]} (${day.confidence}%), ${(day.precip_24h_mm ?? 0).toFixed(1)} mm rain`
+                      : `${format(parseISO(date), 'MMM d')}: no prediction`
+                  }
+                />
+              );
+            })}
+          </div>
+
+          <div className="flex justify-between mt-2 text-xs text-[var(--foreground-muted)]">
+            <span>{format(parseISO(dates[0]), 'MMM d')}</span>
+            <span>Rain up to {maxRain.toFixed(1)} mm/day</span>
+            <span>Today</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  CONDITION_COLORS,
+  CONDITION_LABELS,
+  ElevationProfilePoint,
+  SegmentPrediction,
+  TrailCondition,
+  TrailProfileResponse,
+} from '@/lib/types';
+
+// Chart drawing area in SVG units; stretched to the card's width
+const WIDTH = 600;
+const HEIGHT = 140;
+
+interface ElevationProfileProps {
+  trailId: number;
+  condition: TrailCondition;
+  segments: SegmentPrediction[];
+}
+
+// Predicted condition at a distance along the trail: the segment covering
+// it (segments run in order), or the whole trail's when it isn't segmented
+function conditionAt(distanceMi: number, condition: TrailCondition, segments: SegmentPrediction[]): TrailCondition {
+  const segment = segments.find((s) => distanceMi < s.end_mi) ?? segments[segments.length - 1];
+  return segment?.condition ?? condition;
+}
+
+// Index of the profile point nearest a distance
+function nearestPoint(profile: ElevationProfilePoint[], distanceMi: number): number {
+  let nearest = 0;
+  profile.forEach((p, i) => {
+    if (Math.abs(p.distance_mi - distanceMi) < Math.abs(profile[nearest].distance_mi - distanceMi)) nearest = i;
+  });
+  return nearest;
+}
+
+// Elevation along the trail, shaded by the predicted condition of each
+// section, so riders can see whether the muddy part is the climb or the
+// descent
+export function ElevationProfile({ trailId, condition, segments }: ElevationProfileProps) {
+  const [data, setData] = useState<TrailProfileResponse | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [hover, setHover] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadProfile() {
+      try {
+        const response = await fetch(`/api/trails/${trailId}/profile`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const profile: TrailProfileResponse = await response.json();
+        if (!cancelled) setData(profile);
+      } catch (error) {
+        console.error('Error loading elevation profile:', error);
+        if (!cancelled) setFailed(true);
+      }
+    }
+
+    setData(null);
+    setFailed(false);
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [trailId]);
+
+  // Nothing to draw: leave the page as it was
+  if (failed || (data && data.profile.length < 2)) return null;
+
+  const profile: ElevationProfilePoint[] = data?.profile ?? [];
+  const startMi = profile[0]?.distance_mi ?? 0;
+  const endMi = profile[profile.length - 1]?.distance_mi ?? 0;
+  const minM = Math.min(...profile.map((p) => p.elevation_m));
+  const maxM = Math.max(...profile.map((p) => p.elevation_m));
+  // Keep gentle trails from looking like cliffs
+  const spanM = Math.max(maxM - minM, 30);
+
+  const x = (distanceMi: number) => ((distanceMi - startMi) / Math.max(endMi - startMi, 0.01)) * WIDTH;
+  const y = (elevationM: number) => HEIGHT - ((elevationM - minM) / spanM) * (HEIGHT - 10);
+
+  // One filled area per run of points in the same condition
+  const runs: Array<{ condition: TrailCondition; points: ElevationProfilePoint[] }> = [];
+  for (let i = 0; i < profile.length - 1; i++) {
+    const runCondition = conditionAt((profile[i].distance_mi + profile[i + 1].distance_mi) / 2, condition, segments);
+    const last = runs[runs.length - 1];
+    if (last && last.condition === runCondition) {
+      last.points.push(profile[i + 1]);
+    } else {
+      runs.push({ condition: runCondition, points: [profile[i], profile[i + 1]] });
+    }
+  }
+
+  const hovered = hover !== null ? profile[hover] : null;
+  const hoveredCondition = hovered ? conditionAt(hovered.distance_mi, condition, segments) : null;
+
+  return (
+    <div className="card p-5 mb-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-[var(--foreground)]">Elevation Profile</h2>
+        {data && (data.gain_m !== null || data.loss_m !== null) && (
+          <span className="text-xs text-[var(--foreground-muted)]">
+            {data.gain_m !== null && `↑ ${data.gain_m.toLocaleString()} m`}
+            {data.gain_m !== null && data.loss_m !== null && ' · '}
+            {data.loss_m !== null && `↓ ${data.loss_m.toLocaleString()} m`}
+          </span>
+        )}
+      </div>
+
+      {data === null ? (
+        <div className="h-20 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-5 w-5 border-2 border-green-500 border-t-transparent" />
+        </div>
+      ) : (
+        <>
+          <div className="relative">
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-32 cursor-crosshair"
+              onMouseMove={(event) => {
+                const box = event.currentTarget.getBoundingClientRect();
+                setHover(nearestPoint(profile, startMi + ((event.clientX - box.left) / box.width) * (endMi - startMi)));
+              }}
+              onMouseLeave={() => setHover(null)}
+            >
+              {runs.map((run, i) => {
+                const line = run.points.map((p) => `${x(p.distance_mi)},${y(p.elevation_m)}`).join(' L');
+                const first = run.points[0];
+                const last = run.points[run.points.length - 1];
+                return (
+                  <g key={i}>
+                    <path
+                      d={`M${x(first.distance_mi)},${HEIGHT} L${line} L${x(last.distance_mi)},${HEIGHT} Z`}
+                      fill={CONDITION_COLORS[run.condition]}
+                      fillOpacity={0.35}
+                    />
+                    <path
+                      d={`M${line}`}
+                      fill="none"
+                      stroke={CONDITION_COLORS[run.condition]}
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </g>
+                );
+              })}
+              {hovered && (
+                <line
+                  x1={x(hovered.distance_mi)}
+                  x2={x(hovered.distance_mi)}
+                  y1={0}
+                  y2={HEIGHT}
+                  stroke="var(--foreground-muted)"
+                  strokeDasharray="3 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+
+            {hovered && hoveredCondition && (
+              <div
+                className="absolute top-0 -translate-x-1/2 pointer-events-none rounded-lg bg-[var(--background)] border border-[var(--border)] px-2 py-1 text-xs shadow-sm whitespace-nowrap"
+                style={{ left: `${Math.min(90, Math.max(10, (x(hovered.distance_mi) / WIDTH) * 100))}%` }}
+              >
+                <div className="font-medium text-[var(--foreground)]">
+                  {hovered.elevation_m.toLocaleString()} m at {hovered.distance_mi.toFixed(1)} mi
+                </div>
+                <div style={{ color: CONDITION_COLORS[hoveredCondition] }}>{CONDITION_LABELS[hoveredCondition]}</div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between mt-2 text-xs text-[var(--foreground-muted)]">
+            <span>{startMi.toFixed(1)} mi</span>
+            <span>{minM.toLocaleString()}–{maxM.toLocaleString()} m</span>
+            <span>{endMi.toFixed(1)} mi</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
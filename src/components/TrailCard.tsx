@@ -1,9 +1,18 @@
 'use client';
 
 import Link from 'next/link';
-import { TrailPrediction } from '@/lib/types';
-import { ConditionBadge } from './ConditionBadge';
-import { Clock, Mountain, Compass, ArrowRight } from 'lucide-react';
+import { TrailPrediction, CONDITION_LABELS } from '@/lib/types';
+import {
+  getForecastOutlook,
+  formatForecastOutlook,
+  formatWindowHour,
+  formatWorstSection,
+  hasIntradayChange,
+  isWetDamageNow,
+  WET_DAMAGE_WARNING,
+} from '@/lib/predictions';
+import { ConditionBadge, ConditionIcon } from './ConditionBadge';
+import { Clock, Mountain, Compass, ArrowRight, CalendarDays, Sunrise, TriangleAlert } from 'lucide-react';
 
 interface TrailCardProps {
   trail: TrailPrediction;
@@ -14,6 +23,8 @@ export function TrailCard({ trail, compact = false }: TrailCardProps) {
   const elevationFt = trail.factors.elevation_min 
     ? Math.round(trail.factors.elevation_min * 3.28084)
     : null;
+  const outlook = getForecastOutlook(trail);
+  const windows = hasIntradayChange(trail) ? trail.windows : [];
   
   if (compact) {
     return (
@@ -88,8 +99,51 @@ export function TrailCard({ trail, compact = false }: TrailCardProps) {
             </span>
           </div>
         )}
+
+        {outlook && (
+          <div className="flex items-center gap-2 text-[var(--foreground-secondary)]">
+            <CalendarDays className="w-4 h-4 text-[var(--foreground-muted)]" />
+            <span className="text-[var(--foreground)] font-medium">
+              {formatForecastOutlook(outlook)}
+            </span>
+          </div>
+        )}
+
+        {trail.factors.worst_section && (
+          <div className="flex items-center gap-2 text-[var(--foreground-secondary)]">
+            <TriangleAlert className="w-4 h-4 text-[var(--foreground-muted)]" />
+            <span className="text-[var(--foreground)] font-medium">
+              {formatWorstSection(trail.factors.worst_section)}
+            </span>
+          </div>
+        )}
+
+        {isWetDamageNow(trail) && (
+          <div className="flex items-center gap-2 text-[var(--foreground-secondary)]">
+            <TriangleAlert className="w-4 h-4 text-red-500" />
+            <span className="text-[var(--foreground)] font-medium">
+              {WET_DAMAGE_WARNING}
+            </span>
+          </div>
+        )}
       </div>
 
+      {windows.length > 0 && (
+        <div className="flex items-center gap-3 text-sm text-[var(--foreground-secondary)] mb-3">
+          <Sunrise className="w-4 h-4 text-[var(--foreground-muted)]" />
+          {windows.map((w) => (
+            <span
+              key={w.window}
+              className="flex items-center gap-1"
+              title={w.frozen ? 'Frozen solid' : CONDITION_LABELS[w.condition]}
+            >
+              {formatWindowHour(w.window)}
+              <ConditionIcon condition={w.condition} className="w-4 h-4" />
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-center justify-between pt-3 border-t border-[var(--border)]">
         <span className="text-xs text-[var(--foreground-muted)]">
           {trail.factors.soil || 'Unknown soil'} · Dries in ~{trail.effective_dry_hours}h
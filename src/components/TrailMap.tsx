@@ -5,7 +5,7 @@ import { TrailPrediction, CONDITION_COLORS, CONDITION_LABELS, TrailCondition } f
 import { ConditionBadge } from './ConditionBadge';
 import { useTheme } from 'next-themes';
 import Link from 'next/link';
-import { Clock, Mountain, ArrowRight, CheckCircle, Circle, AlertCircle, XCircle, Snowflake, Loader2 } from 'lucide-react';
+import { Clock, Mountain, ArrowRight, CheckCircle, Circle, AlertCircle, XCircle, Snowflake, ThermometerSnowflake, Loader2 } from 'lucide-react';
 
 interface TrailMapProps {
   trails: TrailPrediction[];
@@ -109,12 +109,12 @@ export function TrailMap({
         url={tileUrl}
       />
 
-      {/* Trail lines */}
+      {/* Trail lines, one colour per segment where segments were predicted */}
       {filteredTrails.map((trail) => (
         <GeoJSON
           key={trail.id}
-          data={trail.geometry as GeoJSON.Geometry}
-          style={() => getTrailStyle(trail.condition)}
+          data={getTrailData(trail)}
+          style={(feature: GeoJSON.Feature | undefined) => getTrailStyle(feature?.properties?.condition ?? trail.condition)}
           eventHandlers={{
             click: () => {
               onTrailClick?.(trail);
@@ -127,8 +127,8 @@ export function TrailMap({
               });
             },
             mouseout: (e: any) => {
-              const layer = e.target;
-              layer.setStyle(getTrailStyle(trail.condition));
+              // Re-run the style function so each segment gets its colour back
+              e.target.resetStyle();
             },
           }}
         >
@@ -141,6 +141,23 @@ export function TrailMap({
   );
 }
 
+// Trail geometry, split into condition-tagged features when every segment
+// has its own geometry
+function getTrailData(trail: TrailPrediction): GeoJSON.GeoJsonObject {
+  const segments = trail.segments ?? [];
+  if (segments.length < 2 || segments.some((s) => !s.geometry)) {
+    return trail.geometry as GeoJSON.Geometry;
+  }
+  return {
+    type: 'FeatureCollection',
+    features: segments.map((s) => ({
+      type: 'Feature',
+      geometry: s.geometry,
+      properties: { condition: s.condition },
+    })),
+  } as GeoJSON.FeatureCollection;
+}
+
 // Popup content for trail
 function TrailPopup({ trail }: { trail: TrailPrediction }) {
   return (
@@ -198,6 +215,7 @@ export function MapLegend() {
     { condition: 'likely_muddy', Icon: AlertCircle },
     { condition: 'muddy', Icon: XCircle },
     { condition: 'snow', Icon: Snowflake },
+    { condition: 'freeze_thaw', Icon: ThermometerSnowflake },
   ];
   
   return (
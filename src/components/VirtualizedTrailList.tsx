@@ -1,6 +1,8 @@
 'use client';
 
+import { useMemo, useState } from 'react';
 import { TrailPrediction } from '@/lib/types';
+import { TrailSort, TRAIL_SORT_LABELS, sortTrails } from '@/lib/predictions';
 import { TrailCard } from './TrailCard';
 import { Filter } from 'lucide-react';
 import { Virtuoso } from 'react-virtuoso';
@@ -10,6 +12,9 @@ interface VirtualizedTrailListProps {
 }
 
 export function VirtualizedTrailList({ trails }: VirtualizedTrailListProps) {
+  const [sort, setSort] = useState<TrailSort>('condition');
+  const sortedTrails = useMemo(() => sortTrails(trails, sort), [trails, sort]);
+
   if (trails.length === 0) {
     return (
       <div className="h-full overflow-y-auto p-4 bg-[var(--background)]">
@@ -33,7 +38,7 @@ export function VirtualizedTrailList({ trails }: VirtualizedTrailListProps) {
   return (
     <Virtuoso
       style={{ height: '100%' }}
-      totalCount={trails.length}
+      totalCount={sortedTrails.length}
       overscan={200}
       components={{
         Header: () => (
@@ -42,9 +47,20 @@ export function VirtualizedTrailList({ trails }: VirtualizedTrailListProps) {
               <h2 className="text-lg font-semibold text-[var(--foreground)]">
                 {trails.length} Trails
               </h2>
-              <span className="text-sm text-[var(--foreground-muted)]">
-                Sorted by condition
-              </span>
+              <label className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+                Sort by
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as TrailSort)}
+                  className="bg-[var(--background-secondary)] text-[var(--foreground)] rounded-lg px-2 py-1 border border-[var(--border)] focus:border-green-500 focus:outline-none"
+                >
+                  {(Object.keys(TRAIL_SORT_LABELS) as TrailSort[]).map((key) => (
+                    <option key={key} value={key}>
+                      {TRAIL_SORT_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
           </div>
         ),
@@ -52,7 +68,7 @@ export function VirtualizedTrailList({ trails }: VirtualizedTrailListProps) {
       }}
       itemContent={(index) => (
         <div className="max-w-3xl mx-auto px-4 pb-3">
-          <TrailCard trail={trails[index]} />
+          <TrailCard trail={sortedTrails[index]} />
         </div>
       )}
     />
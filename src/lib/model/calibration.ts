@@ -0,0 +1,202 @@
+import { Aspect, DrainageClass, ReportCondition } from '../types';
+import { ASPECT_MODIFIERS, BASE_DRY_HOURS, DryTimeCoefficients } from './constants';
+import { MOISTURE_THRESHOLDS } from './moisture';
+import { ModelTrail, RegionWeather, predictTrailCondition, thresholdScaleFor } from './predict';
+import { reportAgrees } from './reports';
+
+// Multipliers tried on each coefficient per pass
+const CANDIDATE_SCALES = [0.5, 0.67, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 2];
+
+// Coordinate-descent passes over all coefficients
+const FIT_PASSES = 3;
+
+// Coefficients with fewer reports than this keep their current value (a
+// report counts by the share of its trail the coefficient covers)
+export const MIN_SAMPLES_PER_COEFFICIENT = 5;
+
+// Keep fitted values physically sensible
+const DRY_HOURS_RANGE: [number, number] = [2, 336];
+const ASPECT_MODIFIER_RANGE: [number, number] = [0.3, 2.5];
+
+// A rider report paired with the weather the model would have seen
+// when it was made. Snow reports are not useful here: dry time does
+// not affect the snow check.
+export interface CalibrationSample {
+  trail: ModelTrail;
+  weather: RegionWeather;  // interpolated for the trail
+  reported_at: string;
+  condition: Exclude<ReportCondition, 'snow'>;
+}
+
+// A sample and how much of its trail one coefficient covers (0-1)
+interface WeightedSample {
+  sample: CalibrationSample;
+  weight: number;
+}
+
+export interface AccuracyStats {
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1, 0 when there are no samples
+}
+
+// Stored coefficient set (model_coefficients row)
+export interface CoefficientRow {
+  version: number;
+  base_dry_hours: Partial<Record<DrainageClass, number>>;
+  aspect_modifiers: Partial<Record<Aspect, number>>;
+}
+
+// Build a full coefficient set from a stored row; missing keys keep defaults
+export function coefficientsFromRow(row: CoefficientRow): DryTimeCoefficients {
+  return {
+    version: row.version,
+    base_dry_hours: { ...BASE_DRY_HOURS, ...row.base_dry_hours },
+    aspect_modifiers: { ...ASPECT_MODIFIERS, ...row.aspect_modifiers },
+  };
+}
+
+// Replay the model at the time of the report, without the reports themselves
+function replay(sample: CalibrationSample, coefficients: DryTimeCoefficients) {
+  return predictTrailCondition(sample.trail, sample.weather, {
+    now: new Date(sample.reported_at),
+    forecastDays: 0,
+    coefficients,
+  });
+}
+
+function countCorrect(samples: CalibrationSample[], coefficients: DryTimeCoefficients): number {
+  return samples.filter((s) => reportAgrees(s.condition, replay(s, coefficients).condition)).length;
+}
+
+// How far, in log moisture, each replayed bucket sits on the wrong side of
+// the wet/dry threshold (scaled for high clay, as in the predictions),
+// weighted by how much of the trail the coefficient covers. Unlike accuracy
+// this still points the right way when no single step flips a report.
+function fitLoss(samples: WeightedSample[], coefficients: DryTimeCoefficients): number {
+  let loss = 0;
+  for (const { sample, weight } of samples) {
+    const prediction = replay(sample, coefficients);
+    if (prediction.condition === 'snow' || prediction.condition === 'freeze_thaw') continue;
+    const threshold = Math.log(MOISTURE_THRESHOLDS.likely_muddy * thresholdScaleFor(sample.trail));
+    const level = Math.log(Math.max(0.5, prediction.factors.soil_moisture_pct) / 100);
+    loss += weight * (sample.condition === 'muddy'
+      ? Math.max(0, threshold - level)
+      : Math.max(0, level - threshold));
+  }
+  return loss;
+}
+
+// Share of a trail's length in a drainage class, out of the classes that
+// have dry hours (as getBaseDryHours weighs them), else all or nothing by
+// its dominant class
+function drainageShare(trail: ModelTrail, drainage: DrainageClass): number {
+  const total = Object.entries(trail.soil_drainage_distribution ?? {})
+    .filter(([drainageClass]) => drainageClass in BASE_DRY_HOURS)
+    .reduce((sum, [, pct]) => sum + (pct ?? 0), 0);
+  if (total > 0) return (trail.soil_drainage_distribution?.[drainage] ?? 0) / total;
+  return trail.soil_drainage_class === drainage ? 1 : 0;
+}
+
+// Share of a trail's length facing an aspect (flat ground included in the
+// total), else all or nothing by its dominant aspect
+function aspectShare(trail: ModelTrail, aspect: Aspect): number {
+  const distribution = Object.values(trail.aspect_distribution ?? {});
+  const total = distribution.reduce((sum: number, pct) => sum + (pct ?? 0), 0);
+  if (total > 0) return (trail.aspect_distribution?.[aspect] ?? 0) / total;
+  return trail.dominant_aspect === aspect ? 1 : 0;
+}
+
+// Samples a coefficient affects, weighted by share
+function weightedBy(samples: CalibrationSample[], share: (trail: ModelTrail) => number): WeightedSample[] {
+  return samples
+    .map((sample) => ({ sample, weight: share(sample.trail) }))
+    .filter((s) => s.weight > 0);
+}
+
+function totalWeight(samples: WeightedSample[]): number {
+  return samples.reduce((sum, s) => sum + s.weight, 0);
+}
+
+// Share of reports the model agreed with under a coefficient set
+export function scoreCoefficients(
+  samples: CalibrationSample[],
+  coefficients: DryTimeCoefficients
+): AccuracyStats {
+  const correct = countCorrect(samples, coefficients);
+  return {
+    correct,
+    total: samples.length,
+    accuracy: samples.length > 0 ? correct / samples.length : 0,
+  };
+}
+
+// Pick the scale for one coefficient with the lowest loss.
+// Ties go to the smallest change so sparse data doesn't move values.
+function bestScale(
+  samples: WeightedSample[],
+  build: (scale: number) => DryTimeCoefficients
+): number {
+  let best = 1;
+  let bestLoss = Infinity;
+  const byCloseness = [...CANDIDATE_SCALES].sort(
+    (a, b) => Math.abs(Math.log(a)) - Math.abs(Math.log(b))
+  );
+  for (const scale of byCloseness) {
+    const loss = fitLoss(samples, build(scale));
+    if (loss < bestLoss - 1e-9) {
+      best = scale;
+      bestLoss = loss;
+    }
+  }
+  return best;
+}
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Fit per-drainage-class dry hours and per-aspect modifiers to rider reports
+// by coordinate descent. Each coefficient only sees the samples it affects,
+// weighted by their trail's share in its drainage or aspect distribution.
+export function fitCoefficients(
+  samples: CalibrationSample[],
+  initial: DryTimeCoefficients
+): DryTimeCoefficients {
+  const fitted: DryTimeCoefficients = {
+    version: null,
+    base_dry_hours: { ...initial.base_dry_hours },
+    aspect_modifiers: { ...initial.aspect_modifiers },
+  };
+
+  const drainageClasses = Object.keys(fitted.base_dry_hours) as DrainageClass[];
+  const aspects = Object.keys(fitted.aspect_modifiers) as Aspect[];
+
+  for (let pass = 0; pass < FIT_PASSES; pass++) {
+    for (const drainage of drainageClasses) {
+      const subset = weightedBy(samples, (trail) => drainageShare(trail, drainage));
+      if (totalWeight(subset) < MIN_SAMPLES_PER_COEFFICIENT) continue;
+
+      const current = fitted.base_dry_hours[drainage];
+      const scale = bestScale(subset, (k) => ({
+        ...fitted,
+        base_dry_hours: { ...fitted.base_dry_hours, [drainage]: clamp(current * k, DRY_HOURS_RANGE) },
+      }));
+      fitted.base_dry_hours[drainage] = Math.round(clamp(current * scale, DRY_HOURS_RANGE) * 10) / 10;
+    }
+
+    for (const aspect of aspects) {
+      const subset = weightedBy(samples, (trail) => aspectShare(trail, aspect));
+      if (totalWeight(subset) < MIN_SAMPLES_PER_COEFFICIENT) continue;
+
+      const current = fitted.aspect_modifiers[aspect];
+      const scale = bestScale(subset, (k) => ({
+        ...fitted,
+        aspect_modifiers: { ...fitted.aspect_modifiers, [aspect]: clamp(current * k, ASPECT_MODIFIER_RANGE) },
+      }));
+      fitted.aspect_modifiers[aspect] = Math.round(clamp(current * scale, ASPECT_MODIFIER_RANGE) * 100) / 100;
+    }
+  }
+
+  return fitted;
+}
@@ -0,0 +1,122 @@
+import { ConfidenceFactors, TrailCondition, WeatherHour } from '../types';
+import { FORECAST_CONFIDENCE_DECAY } from './constants';
+import { MOISTURE_THRESHOLDS } from './moisture';
+import { SNOW_COVER_SWE_MM } from './snow';
+
+// Threshold margin (in doublings of moisture or snow water) at which the
+// margin score closes about 63% of the gap from a coin flip to certainty
+const MARGIN_SCALE_DOUBLINGS = 1;
+
+// Margins past this many doublings are all "far from the threshold"
+const MAX_MARGIN_DOUBLINGS = 6;
+
+// Hours synthesized from daily summaries misplace rain within the day
+const SYNTHETIC_HOURLY_SCORE = 0.85;
+
+// Weather interpolated from distant grid cells is less certain: up to
+// WEATHER_DISTANCE_PENALTY lost, approached over a few times the scale
+const WEATHER_DISTANCE_SCALE_KM = 50;
+const WEATHER_DISTANCE_PENALTY = 0.3;
+
+// Window checked for gaps in the weather before a prediction
+const COVERAGE_WINDOW_HOURS = 72;
+
+// Share of confidence lost without each trail input
+const MISSING_SOIL_PENALTY = 0.15;
+const MISSING_ASPECT_PENALTY = 0.05;
+const MISSING_ELEVATION_PENALTY = 0.05;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Model state a confidence is computed for
+export interface ConfidenceInputs {
+  condition: TrailCondition;
+  moisture_level: number;     // 0-1 bucket level
+  threshold_scale?: number;   // scale on the moisture thresholds (1 unless high clay)
+  swe_max_mm: number;         // deeper end of the trail's snowpack
+  at: Date;                   // time the condition is for
+  now: Date;                  // time the prediction is made
+  hours: WeatherHour[];       // weather the model ran on
+  synthetic_hours: boolean;   // hours were synthesized from daily data
+  station_distance_km: number | null;
+  weather_quality: number;    // 0-1 data-quality score of the weather cells
+  soil_known: boolean;
+  aspect_known: boolean;
+  elevation_known: boolean;
+}
+
+// How far the state sits from flipping to a different riding outcome:
+// wet/dry at the likely-muddy threshold, snow/clear at snow cover.
+// 0.5 right at a threshold, approaching 1 far from it.
+export function thresholdScore(
+  condition: TrailCondition,
+  moistureLevel: number,
+  sweMaxMm: number,
+  thresholdScale: number = 1
+): number {
+  const doublings = (value: number, threshold: number) =>
+    Math.min(MAX_MARGIN_DOUBLINGS, Math.abs(Math.log2(Math.max(value, 1e-6) / threshold)));
+
+  let margin: number;
+  if (condition === 'snow' || condition === 'freeze_thaw') {
+    margin = doublings(sweMaxMm, SNOW_COVER_SWE_MM);
+  } else {
+    margin = doublings(moistureLevel, MOISTURE_THRESHOLDS.likely_muddy * thresholdScale);
+    // Thin snow that could still build to cover is its own threshold
+    if (sweMaxMm > 0) margin = Math.min(margin, doublings(sweMaxMm, SNOW_COVER_SWE_MM));
+  }
+
+  return 0.5 + 0.5 * (1 - Math.exp(-margin / MARGIN_SCALE_DOUBLINGS));
+}
+
+// Trust in the weather the model ran on: hourly vs synthesized, distance to
+// the grid cells it was interpolated from, gaps before the prediction, and
+// the cells' data-quality checks
+export function weatherScore(inputs: ConfidenceInputs): number {
+  const source = inputs.synthetic_hours ? SYNTHETIC_HOURLY_SCORE : 1;
+
+  const distance = inputs.station_distance_km === null
+    ? 1
+    : 1 - WEATHER_DISTANCE_PENALTY * (1 - Math.exp(-inputs.station_distance_km / WEATHER_DISTANCE_SCALE_KM));
+
+  const end = inputs.at.getTime();
+  const start = end - COVERAGE_WINDOW_HOURS * MS_PER_HOUR;
+  const covered = inputs.hours.filter((h) => {
+    const t = Date.parse(h.time);
+    return t > start && t <= end;
+  }).length;
+  const coverage = Math.min(1, covered / COVERAGE_WINDOW_HOURS);
+
+  return source * distance * coverage * inputs.weather_quality;
+}
+
+// Forecast skill falls off with lead time
+export function leadTimeScore(at: Date, now: Date): number {
+  const leadDays = Math.max(0, at.getTime() - now.getTime()) / (24 * MS_PER_HOUR);
+  return Math.pow(FORECAST_CONFIDENCE_DECAY, leadDays);
+}
+
+// Trail inputs that fall back to defaults when missing
+export function inputsScore(inputs: Pick<ConfidenceInputs, 'soil_known' | 'aspect_known' | 'elevation_known'>): number {
+  return 1 -
+    (inputs.soil_known ? 0 : MISSING_SOIL_PENALTY) -
+    (inputs.aspect_known ? 0 : MISSING_ASPECT_PENALTY) -
+    (inputs.elevation_known ? 0 : MISSING_ELEVATION_PENALTY);
+}
+
+// Model confidence (0-100) and its components, before rider reports
+export function modelConfidence(inputs: ConfidenceInputs): { confidence: number; factors: ConfidenceFactors } {
+  const factors: ConfidenceFactors = {
+    threshold: round2(thresholdScore(inputs.condition, inputs.moisture_level, inputs.swe_max_mm, inputs.threshold_scale)),
+    weather: round2(weatherScore(inputs)),
+    lead_time: round2(leadTimeScore(inputs.at, inputs.now)),
+    inputs: round2(inputsScore(inputs)),
+    reports: 0,
+  };
+  const confidence = Math.round(100 * factors.threshold * factors.weather * factors.lead_time * factors.inputs);
+  return { confidence, factors };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
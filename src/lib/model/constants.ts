@@ -0,0 +1,86 @@
+import { Aspect, DayWindow, DrainageClass } from '../types';
+
+// Base dry hours by drainage class
+export const BASE_DRY_HOURS: Record<DrainageClass, number> = {
+  'Excessively drained': 6,
+  'Somewhat excessively drained': 12,
+  'Well drained': 24,
+  'Moderately well drained': 48,
+  'Somewhat poorly drained': 72,
+  'Poorly drained': 120,
+  'Very poorly drained': 168,
+};
+
+// Fallback when a trail has no soil data
+export const DEFAULT_DRY_HOURS = 48;
+
+// Aspect modifiers for drying time (south-facing dries faster)
+export const ASPECT_MODIFIERS: Record<Aspect, number> = {
+  'S': 0.6,
+  'SE': 0.7,
+  'SW': 0.7,
+  'E': 0.85,
+  'W': 0.85,
+  'NE': 1.1,
+  'NW': 1.1,
+  'N': 1.3,
+};
+
+// Dry-time coefficients the model runs with. Calibrated sets fitted from
+// rider reports replace the hand-picked defaults above.
+export interface DryTimeCoefficients {
+  version: number | null; // null for the built-in defaults
+  base_dry_hours: Record<DrainageClass, number>;
+  aspect_modifiers: Record<Aspect, number>;
+}
+
+export const DEFAULT_COEFFICIENTS: DryTimeCoefficients = {
+  version: null,
+  base_dry_hours: BASE_DRY_HOURS,
+  aspect_modifiers: ASPECT_MODIFIERS,
+};
+
+// Above ~8000ft trails dry slower
+export const HIGH_ELEVATION_M = 2438;
+export const HIGH_ELEVATION_MODIFIER = 1.2;
+
+// Full canopy cuts evaporative demand by this fraction
+export const CANOPY_SHADE_FACTOR = 0.5;
+
+// Clay-rich tread (surface horizon at or above this clay %) turns to
+// "peanut butter" and ruts when ridden wet. Its moisture thresholds are
+// scaled down, so it has to dry further before it counts as rideable.
+export const HIGH_CLAY_PCT = 35;
+export const HIGH_CLAY_THRESHOLD_SCALE = 0.5;
+
+// Significant rain threshold
+export const PRECIP_THRESHOLD_MM = 2.5;
+
+// Standard lapse rate: ~6.5°C per 1000m elevation gain
+export const LAPSE_RATE_C_PER_KM = 6.5;
+
+// Mountain Standard Time, used for local dates and synthesized hours
+export const DEFAULT_UTC_OFFSET_HOURS = -7;
+
+// Days of weather history fed to the model. The moisture bucket forgets
+// within a week or two; the snowpack needs most of a season.
+export const WEATHER_HISTORY_DAYS = 90;
+
+// Local hour each intraday window is evaluated at
+export const DAY_WINDOW_HOURS: Record<DayWindow, number> = {
+  morning: 7,
+  midday: 13,
+  evening: 18,
+};
+
+// Wet tread rides like pavement once it has been below freezing this long
+export const FROZEN_GROUND_HOURS = 3;
+
+// Days of daily prediction history kept per trail
+export const HISTORY_RETENTION_DAYS = 365;
+
+// Days of condition forecast per trail
+export const FORECAST_DAYS = 7;
+
+// Forecast confidence is multiplied by this per day of lead time
+export const FORECAST_CONFIDENCE_DECAY = 0.9;
@@ -0,0 +1,141 @@
+import {
+  Aspect,
+  DrainageClass,
+  ExplanationStation,
+  ExplanationThreshold,
+  PredictionExplanation,
+  TrailCondition,
+} from '../types';
+import { MOISTURE_THRESHOLDS, conditionFromMoisture } from './moisture';
+import { SNOW_COVER_SWE_MM } from './snow';
+
+// Moisture bands from dry to wet: the condition below each threshold and
+// the one at or above it
+const MOISTURE_BANDS: Array<{ threshold: number; below: TrailCondition; above: TrailCondition }> = [
+  { threshold: MOISTURE_THRESHOLDS.likely_rideable, below: 'rideable', above: 'likely_rideable' },
+  { threshold: MOISTURE_THRESHOLDS.likely_muddy, below: 'likely_rideable', above: 'likely_muddy' },
+  { threshold: MOISTURE_THRESHOLDS.muddy, below: 'likely_muddy', above: 'muddy' },
+];
+
+// Everything the dry-time calculation and weather blend used for a trail
+export interface ExplanationInputs {
+  soil: DrainageClass | null;
+  base_dry_hours: number;
+  aspect: Aspect | null;
+  elevation_min: number | null;
+  elevation_modifier: number;
+  canopy_cover_pct: number | null;
+  canopy_modifier: number;      // on evaporative demand
+  avg_demand: number;           // recent demand, canopy and aspect included
+  avg_flat_demand: number;      // the same without aspect
+  avg_temp_c: number | null;
+  stations: ExplanationStation[];
+  weather_elevation_m: number;
+  hourly: boolean;
+  elevation_low_m: number;
+  elevation_high_m: number;
+  correction_low_c: number;
+  correction_high_c: number;
+  condition: TrailCondition;    // whole-trail model condition
+  moisture_level: number;
+  threshold_scale: number;      // on the moisture thresholds (1 unless high clay)
+  swe_max_mm: number;
+}
+
+// Threshold that decided the model condition: snow cover for snowy states,
+// otherwise the nearer edge (in doublings) of the current moisture band
+export function explainThreshold(
+  condition: TrailCondition,
+  moistureLevel: number,
+  sweMaxMm: number,
+  thresholdScale: number = 1
+): ExplanationThreshold {
+  if (condition === 'snow' || condition === 'freeze_thaw') {
+    return {
+      metric: 'snow_water',
+      value: round1(sweMaxMm),
+      threshold: SNOW_COVER_SWE_MM,
+      side: 'above',
+      condition: conditionFromMoisture(moistureLevel, thresholdScale),
+    };
+  }
+
+  const doublings = (threshold: number) => Math.abs(Math.log2(Math.max(moistureLevel, 1e-6) / threshold));
+  let nearest: ExplanationThreshold | null = null;
+  let nearestMargin = Infinity;
+  for (const band of MOISTURE_BANDS) {
+    const threshold = band.threshold * thresholdScale;
+    const side = moistureLevel >= threshold ? 'above' : 'below';
+    // Only the edges of the band the level is in
+    if ((side === 'above' ? band.above : band.below) !== condition) continue;
+    const margin = doublings(threshold);
+    if (margin < nearestMargin) {
+      nearestMargin = margin;
+      nearest = {
+        metric: 'soil_moisture',
+        value: Math.round(moistureLevel * 100),
+        threshold: threshold * 100,
+        side,
+        condition: side === 'above' ? band.below : band.above,
+      };
+    }
+  }
+
+  return nearest ?? {
+    metric: 'soil_moisture',
+    value: Math.round(moistureLevel * 100),
+    threshold: MOISTURE_THRESHOLDS.likely_muddy * thresholdScale * 100,
+    side: moistureLevel >= MOISTURE_THRESHOLDS.likely_muddy * thresholdScale ? 'above' : 'below',
+    condition,
+  };
+}
+
+// Structured explanation of a prediction. The multipliers reproduce the
+// effective dry time: base hours × aspect × elevation × canopy × drying weather.
+// Aspect acts on the solar part of demand, so its multiplier is what it
+// did to recent demand rather than a fixed factor.
+export function explainPrediction(inputs: ExplanationInputs): PredictionExplanation {
+  const demand = Math.max(0.05, inputs.avg_demand);
+  const flatDemand = Math.max(0.05, inputs.avg_flat_demand);
+  // Demand from the weather alone, with shade taken out
+  const weatherDemand = flatDemand / inputs.canopy_modifier;
+
+  return {
+    soil: inputs.soil,
+    base_dry_hours: inputs.base_dry_hours,
+    modifiers: [
+      { factor: 'aspect', input: inputs.aspect, multiplier: round2(flatDemand / demand) },
+      { factor: 'elevation', input: inputs.elevation_min, multiplier: round2(inputs.elevation_modifier) },
+      { factor: 'canopy', input: inputs.canopy_cover_pct, multiplier: round2(1 / inputs.canopy_modifier) },
+      {
+        factor: 'drying_weather',
+        input: inputs.avg_temp_c === null ? null : round1(inputs.avg_temp_c),
+        multiplier: round2(1 / weatherDemand),
+      },
+    ],
+    weather: {
+      stations: inputs.stations.map((s) => ({
+        id: s.id,
+        weight: round2(s.weight),
+        distance_km: round1(s.distance_km),
+      })),
+      elevation_m: Math.round(inputs.weather_elevation_m),
+      hourly: inputs.hourly,
+    },
+    lapse_rate: {
+      elevation_low_m: Math.round(inputs.elevation_low_m),
+      elevation_high_m: Math.round(inputs.elevation_high_m),
+      correction_low_c: round1(inputs.correction_low_c),
+      correction_high_c: round1(inputs.correction_high_c),
+    },
+    threshold: explainThreshold(inputs.condition, inputs.moisture_level, inputs.swe_max_mm, inputs.threshold_scale),
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
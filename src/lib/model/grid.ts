@@ -0,0 +1,63 @@
+import { WeatherRegion } from './regions';
+
+// Default weather grid cell size in degrees (~25 km north-south in Colorado)
+export const WEATHER_GRID_CELL_DEG = 0.25;
+
+// A cell of the weather grid holding at least one trail. Weather is fetched
+// at the mean trail centroid in the cell, not its centre, so the point sits
+// where the riding is.
+export interface GridCell {
+  id: string;
+  lat: number;
+  lon: number;
+  trail_count: number;
+}
+
+// Stable id of the cell containing a point, from its south-west corner
+export function gridCellId(lat: number, lon: number, cellSizeDeg: number = WEATHER_GRID_CELL_DEG): string {
+  const cellLat = Math.floor(lat / cellSizeDeg) * cellSizeDeg;
+  const cellLon = Math.floor(lon / cellSizeDeg) * cellSizeDeg;
+  return `g${cellLat.toFixed(3)}_${cellLon.toFixed(3)}`;
+}
+
+// Cluster points into grid cells, keeping only cells with points
+export function buildWeatherGrid(
+  points: Array<{ lat: number; lon: number }>,
+  cellSizeDeg: number = WEATHER_GRID_CELL_DEG
+): GridCell[] {
+  const sums = new Map<string, { lat: number; lon: number; count: number }>();
+  for (const { lat, lon } of points) {
+    const id = gridCellId(lat, lon, cellSizeDeg);
+    const sum = sums.get(id) ?? { lat: 0, lon: 0, count: 0 };
+    sum.lat += lat;
+    sum.lon += lon;
+    sum.count++;
+    sums.set(id, sum);
+  }
+
+  return [...sums.entries()]
+    .map(([id, sum]) => ({
+      id,
+      lat: Math.round((sum.lat / sum.count) * 1e4) / 1e4,
+      lon: Math.round((sum.lon / sum.count) * 1e4) / 1e4,
+      trail_count: sum.count,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Stored grid cells (weather_grid_cells rows) as interpolation stations
+export function stationsFromCells(
+  cells: Array<{ id: string; lat: number; lon: number; elevation_m: number | null }>
+): Record<string, WeatherRegion> {
+  const stations: Record<string, WeatherRegion> = {};
+  for (const cell of cells) {
+    if (cell.elevation_m === null) continue;
+    stations[cell.id] = {
+      lat: Number(cell.lat),
+      lon: Number(cell.lon),
+      name: cell.id,
+      elevation_m: cell.elevation_m,
+    };
+  }
+  return stations;
+}
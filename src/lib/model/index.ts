@@ -0,0 +1,19 @@
+// Trail condition model
+//
+// Pure functions with no I/O, shared by the daily scripts, the API routes
+// and the UI. Pass `now` to make predictions reproducible.
+
+export * from './constants';
+export * from './regions';
+export * from './weather';
+export * from './moisture';
+export * from './snow';
+export * from './reports';
+export * from './predict';
+export * from './calibration';
+export * from './segments';
+export * from './interpolation';
+export * from './grid';
+export * from './confidence';
+export * from './explanation';
+export * from './quality';
@@ -0,0 +1,226 @@
+import { CellQuality, WeatherDay, WeatherHour } from '../types';
+import { LAPSE_RATE_C_PER_KM } from './constants';
+import { ModelTrail, RegionWeather } from './predict';
+import { blendQuality } from './quality';
+import { WEATHER_REGIONS, WeatherRegion, haversineKm } from './regions';
+
+// Stations blended for each trail
+export const INTERPOLATION_STATIONS = 4;
+
+// Inverse-distance power (2 = weight falls with distance squared)
+const DISTANCE_POWER = 2;
+
+// Stations closer than this are used on their own
+const SNAP_DISTANCE_KM = 1;
+
+// Elevation difference that halves a station's weight: a valley station
+// 1 km below a trail says less about it than one at the same height
+const ELEVATION_HALF_WEIGHT_M = 500;
+
+export interface StationWeight {
+  region: string;
+  weight: number;       // normalised, sums to 1 across stations
+  distance_km: number;
+}
+
+// Inverse-distance weights for the nearest stations with data, scaled down
+// by elevation difference when the trail's elevation is known.
+// Empty when no station is available.
+export function interpolationWeights(
+  lat: number,
+  lon: number,
+  elevationM: number | null,
+  available: string[],
+  stations: Record<string, WeatherRegion> = WEATHER_REGIONS
+): StationWeight[] {
+  const nearest = available
+    .filter((region) => stations[region])
+    .map((region) => ({
+      region,
+      station: stations[region],
+      distance_km: haversineKm(lat, lon, stations[region].lat, stations[region].lon),
+    }))
+    .sort((a, b) => a.distance_km - b.distance_km)
+    .slice(0, INTERPOLATION_STATIONS);
+
+  if (nearest.length === 0) return [];
+  if (nearest[0].distance_km < SNAP_DISTANCE_KM) {
+    return [{ region: nearest[0].region, weight: 1, distance_km: nearest[0].distance_km }];
+  }
+
+  const raw = nearest.map(({ station, distance_km }) => {
+    const elevationFactor = elevationM === null
+      ? 1
+      : 1 / (1 + Math.abs(elevationM - station.elevation_m) / ELEVATION_HALF_WEIGHT_M);
+    return elevationFactor / Math.pow(distance_km, DISTANCE_POWER);
+  });
+  const total = raw.reduce((sum, w) => sum + w, 0);
+
+  return nearest.map(({ region, distance_km }, i) => ({
+    region,
+    weight: raw[i] / total,
+    distance_km,
+  }));
+}
+
+// Blend station weather into one series at the weighted mean station
+// elevation. Temperatures are lapse-rate adjusted to that elevation before
+// averaging; other values are averaged as is. Each hour or day uses the
+// stations that have it, with weights renormalised.
+export function interpolateWeather(
+  weights: StationWeight[],
+  weatherByRegion: Record<string, RegionWeather>,
+  stations: Record<string, WeatherRegion> = WEATHER_REGIONS
+): RegionWeather {
+  const elevation = weights.reduce((sum, w) => sum + w.weight * stations[w.region].elevation_m, 0);
+  // Warming from a station down (or cooling up) to the blend elevation
+  const tempShift = (region: string) =>
+    ((stations[region].elevation_m - elevation) / 1000) * LAPSE_RATE_C_PER_KM;
+
+  const hourly = blend(
+    weights,
+    (region) => weatherByRegion[region]?.hourly ?? [],
+    (h) => h.time,
+    (parts): WeatherHour => ({
+      time: parts[0].value.time,
+      precipitation_mm: mean(parts, (h) => h.precipitation_mm),
+      rain_mm: meanIfAny(parts, (h) => h.rain_mm),
+      showers_mm: meanIfAny(parts, (h) => h.showers_mm),
+      snowfall_cm: meanIfAny(parts, (h) => h.snowfall_cm),
+      temp_c: mean(parts, (h, region) => h.temp_c + tempShift(region)),
+      humidity_pct: Math.round(mean(parts, (h) => h.humidity_pct)),
+      wind_speed_kmh: mean(parts, (h) => h.wind_speed_kmh),
+      shortwave_radiation_wm2: meanIfAny(parts, (h) => h.shortwave_radiation_wm2),
+      vpd_kpa: meanIfAny(parts, (h) => h.vpd_kpa),
+    })
+  );
+
+  const daily = blend(
+    weights,
+    (region) => weatherByRegion[region]?.daily ?? [],
+    (d) => d.date,
+    (parts): WeatherDay => ({
+      date: parts[0].value.date,
+      precipitation_mm: mean(parts, (d) => d.precipitation_mm),
+      rain_mm: meanIfAny(parts, (d) => d.rain_mm),
+      showers_mm: meanIfAny(parts, (d) => d.showers_mm),
+      snowfall_cm: meanIfAny(parts, (d) => d.snowfall_cm),
+      precipitation_hours: meanIfAny(parts, (d) => d.precipitation_hours),
+      temp_max_c: mean(parts, (d, region) => d.temp_max_c + tempShift(region)),
+      temp_min_c: mean(parts, (d, region) => d.temp_min_c + tempShift(region)),
+      humidity_pct: Math.round(mean(parts, (d) => d.humidity_pct)),
+      shortwave_radiation_mj: meanIfAny(parts, (d) => d.shortwave_radiation_mj),
+      wind_speed_mean_kmh: meanIfAny(parts, (d) => d.wind_speed_mean_kmh),
+      vpd_max_kpa: meanIfAny(parts, (d) => d.vpd_max_kpa),
+    })
+  );
+
+  const distance = weights.reduce((sum, w) => sum + w.weight * w.distance_km, 0);
+
+  return {
+    daily,
+    hourly,
+    elevation_m: Math.round(elevation),
+    distance_km: Math.round(distance * 10) / 10,
+    stations: weights,
+  };
+}
+
+// Weather for a trail from the stations that have data, weighted toward
+// its mid elevation. Null when no station has data.
+// With data-quality checks (see quality.ts), cells that failed them are
+// left out of the blend, and the result carries the blend's quality.
+export function trailWeather(
+  trail: Pick<ModelTrail, 'centroid_lat' | 'centroid_lon' | 'elevation_min' | 'elevation_max'>,
+  weatherByRegion: Record<string, RegionWeather>,
+  stations: Record<string, WeatherRegion> = WEATHER_REGIONS,
+  qualityByCell?: Record<string, CellQuality>
+): RegionWeather | null {
+  const elevation = trail.elevation_min !== null && trail.elevation_max !== null
+    ? (trail.elevation_min + trail.elevation_max) / 2
+    : trail.elevation_min ?? trail.elevation_max;
+  const weights = interpolationWeights(
+    trail.centroid_lat,
+    trail.centroid_lon,
+    elevation,
+    Object.keys(weatherByRegion),
+    stations
+  );
+  if (weights.length === 0) return null;
+  if (!qualityByCell) return interpolateWeather(weights, weatherByRegion, stations);
+
+  const { status, score } = blendQuality(weights, qualityByCell);
+  // When too little usable weather is left, blend it all for display;
+  // the prediction itself will be unknown
+  const usable = weights.filter((w) => qualityByCell[w.region]?.status !== 'bad');
+  const blendWeights = status === 'bad' || usable.length === 0 ? weights : renormalise(usable);
+  return { ...interpolateWeather(blendWeights, weatherByRegion, stations), quality: { status, score } };
+}
+
+// Stand-in for a trail with no usable cell at all (none with weather, or
+// none with a known elevation): predicted unknown rather than left out, so
+// yesterday's prediction doesn't linger
+export const NO_USABLE_WEATHER: RegionWeather = {
+  daily: [],
+  hourly: [],
+  quality: { status: 'bad', score: 0 },
+};
+
+function renormalise(weights: StationWeight[]): StationWeight[] {
+  const total = weights.reduce((sum, w) => sum + w.weight, 0);
+  return weights.map((w) => ({ ...w, weight: w.weight / total }));
+}
+
+interface WeightedValue<T> {
+  region: string;
+  weight: number;
+  value: T;
+}
+
+// Group station records by key and combine each group, sorted by key
+function blend<T>(
+  weights: StationWeight[],
+  series: (region: string) => T[],
+  key: (record: T) => string,
+  combine: (parts: WeightedValue<T>[]) => T
+): T[] {
+  const groups = new Map<string, WeightedValue<T>[]>();
+  for (const { region, weight } of weights) {
+    for (const record of series(region)) {
+      const k = key(record);
+      let group = groups.get(k);
+      if (!group) {
+        group = [];
+        groups.set(k, group);
+      }
+      group.push({ region, weight, value: record });
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, parts]) => combine(parts));
+}
+
+// Weighted mean over the stations present, skipping missing values
+function mean<T>(parts: WeightedValue<T>[], value: (record: T, region: string) => number): number {
+  let sum = 0;
+  let weight = 0;
+  for (const part of parts) {
+    const v = value(part.value, part.region);
+    if (v === null || v === undefined || Number.isNaN(v)) continue;
+    sum += v * part.weight;
+    weight += part.weight;
+  }
+  return weight > 0 ? sum / weight : 0;
+}
+
+// Weighted mean of an optional value over the stations that have it; null
+// when none do
+function meanIfAny<T>(parts: WeightedValue<T>[], value: (record: T) => number | null | undefined): number | null {
+  const known = parts.filter((part) => {
+    const v = value(part.value);
+    return v !== null && v !== undefined;
+  });
+  return known.length > 0 ? mean(known, (record) => value(record)!) : null;
+}
@@ -0,0 +1,219 @@
+import { TrailCondition, WeatherDay, WeatherHour } from '../types';
+import { DEFAULT_UTC_OFFSET_HOURS, PRECIP_THRESHOLD_MM } from './constants';
+
+// Surface water (mm) the trail tread holds when fully saturated
+export const SURFACE_STORAGE_MM = 20;
+
+// Bucket level (fraction of storage) at which each condition starts
+export const MOISTURE_THRESHOLDS = {
+  muddy: 0.5,
+  likely_muddy: 0.25,
+  likely_rideable: 0.125,
+};
+
+// Reference drying conditions (evaporative demand index = 1.0)
+const REFERENCE_VPD_KPA = 1.0;
+const REFERENCE_WIND_KMH = 10;
+const WIND_SCALE_KMH = 40;
+// Mean shortwave radiation over a spring or autumn day, night included
+const REFERENCE_RADIATION_WM2 = 200;
+
+// Share of demand driven by sun rather than dry, moving air. Only the solar
+// term depends on which way the trail faces.
+const SOLAR_SHARE = 0.5;
+
+// Frozen ground barely dries (sublimation only)
+const FROZEN_DEMAND = 0.1;
+const MIN_DEMAND = 0.05;
+const MAX_DEMAND = 4;
+
+// Hours used to average recent drying rate
+const DEMAND_WINDOW_HOURS = 72;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface MoistureParams {
+  // Hours for a saturated bucket to reach the likely_muddy threshold at reference demand
+  dryHours: number;
+  // Multiplier on evaporative demand (shade, etc.)
+  dryingFactor: number;
+  // Multiplier on the solar term only (aspect)
+  solarFactor: number;
+  // Lapse-rate correction subtracted from station temperature
+  tempOffsetC: number;
+}
+
+export interface MoistureState {
+  level: number;            // 0-1, fraction of SURFACE_STORAGE_MM
+  hours_since_rain: number;
+  avg_demand: number;       // mean effective demand over DEMAND_WINDOW_HOURS
+  avg_flat_demand: number;  // the same on flat ground (solarFactor 1)
+  avg_temp_c: number | null; // mean trail temperature over the same hours
+  hours_simulated: number;
+}
+
+// Saturation vapour pressure (kPa), Tetens formula
+export function saturationVaporPressure(tempC: number): number {
+  return 0.6108 * Math.exp((17.27 * tempC) / (tempC + 237.3));
+}
+
+// Vapour pressure deficit (kPa)
+export function vaporPressureDeficit(tempC: number, humidityPct: number): number {
+  const rh = Math.min(100, Math.max(0, humidityPct));
+  return saturationVaporPressure(tempC) * (1 - rh / 100);
+}
+
+// Vapour pressure deficit at a trail. A reported deficit (at the weather's
+// elevation) is carried to the trail temperature at the same relative
+// humidity; otherwise it is computed from temperature and humidity.
+export function trailVaporPressureDeficit(hour: WeatherHour, tempOffsetC: number): number {
+  const tempC = hour.temp_c - tempOffsetC;
+  if (hour.vpd_kpa === null || hour.vpd_kpa === undefined) {
+    return vaporPressureDeficit(tempC, hour.humidity_pct);
+  }
+  return hour.vpd_kpa * (saturationVaporPressure(tempC) / saturationVaporPressure(hour.temp_c));
+}
+
+// Evaporative demand relative to reference conditions: an aerodynamic term
+// (vapour pressure deficit and wind) plus a solar term scaled by aspect.
+// Without measured radiation the aerodynamic term stands in for the sun.
+export function evaporativeDemand(
+  tempC: number,
+  vpdKpa: number,
+  windKmh: number,
+  radiationWm2: number | null = null,
+  solarFactor: number = 1
+): number {
+  if (tempC <= 0) return FROZEN_DEMAND;
+
+  const vpdTerm = vpdKpa / REFERENCE_VPD_KPA;
+  const windTerm = (1 + windKmh / WIND_SCALE_KMH) / (1 + REFERENCE_WIND_KMH / WIND_SCALE_KMH);
+  const aeroTerm = vpdTerm * windTerm;
+  const solarTerm = radiationWm2 === null ? aeroTerm : radiationWm2 / REFERENCE_RADIATION_WM2;
+  const demand = (1 - SOLAR_SHARE) * aeroTerm + SOLAR_SHARE * solarTerm * solarFactor;
+  return Math.min(MAX_DEMAND, Math.max(MIN_DEMAND, demand));
+}
+
+// A daily total spread evenly over 24 hours, keeping a missing value missing
+function perHour(total: number | null | undefined): number | null | undefined {
+  return total === null || total === undefined ? total : total / 24;
+}
+
+// Build an hourly series from daily summaries when hourly data is missing.
+// Rain (and snow, by type when known) is spread evenly over the day;
+// temperature follows a daily cycle peaking mid-afternoon. Radiation and
+// wind, when known, are the daily means.
+export function hourlyFromDaily(
+  days: WeatherDay[],
+  utcOffsetHours: number = DEFAULT_UTC_OFFSET_HOURS
+): WeatherHour[] {
+  const hours: WeatherHour[] = [];
+
+  for (const day of days) {
+    const [y, m, d] = day.date.split('-').map(Number);
+    const mid = (day.temp_max_c + day.temp_min_c) / 2;
+    const amp = (day.temp_max_c - day.temp_min_c) / 2;
+
+    for (let h = 0; h < 24; h++) {
+      const utcMs = Date.UTC(y, m - 1, d, h) - utcOffsetHours * MS_PER_HOUR;
+      hours.push({
+        time: new Date(utcMs).toISOString(),
+        precipitation_mm: day.precipitation_mm / 24,
+        rain_mm: perHour(day.rain_mm),
+        showers_mm: perHour(day.showers_mm),
+        snowfall_cm: perHour(day.snowfall_cm),
+        temp_c: mid + amp * Math.cos((2 * Math.PI * (h - 15)) / 24),
+        humidity_pct: day.humidity_pct,
+        wind_speed_kmh: day.wind_speed_mean_kmh ?? REFERENCE_WIND_KMH,
+        shortwave_radiation_wm2: day.shortwave_radiation_mj === null || day.shortwave_radiation_mj === undefined
+          ? null
+          : (day.shortwave_radiation_mj * 1e6) / (24 * 3600),
+      });
+    }
+  }
+
+  return hours.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// Run the moisture bucket forward through every hour up to `now`.
+// Rain fills the bucket; drying drains it exponentially, scaled so a
+// saturated bucket reaches the likely_muddy threshold after `dryHours`
+// at reference demand.
+export function simulateMoisture(
+  hours: WeatherHour[],
+  params: MoistureParams,
+  now: Date
+): MoistureState {
+  const decayPerHour = Math.log(1 / MOISTURE_THRESHOLDS.likely_muddy) / Math.max(1, params.dryHours);
+  const past = hours
+    .filter((h) => Date.parse(h.time) <= now.getTime())
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  let level = 0;
+  let lastRainIdx = -1;
+  const recentPrecip: number[] = [];
+  const demands: number[] = [];
+  const flatDemands: number[] = [];
+  const temps: number[] = [];
+
+  past.forEach((hour, i) => {
+    const precip = Math.max(0, hour.precipitation_mm || 0);
+    level = Math.min(1, level + precip / SURFACE_STORAGE_MM);
+
+    const tempC = hour.temp_c - params.tempOffsetC;
+    const vpd = trailVaporPressureDeficit(hour, params.tempOffsetC);
+    const radiation = hour.shortwave_radiation_wm2 ?? null;
+    const demand = evaporativeDemand(
+      tempC,
+      vpd,
+      hour.wind_speed_kmh,
+      radiation,
+      params.solarFactor
+    ) * params.dryingFactor;
+    level *= Math.exp(-decayPerHour * demand);
+    demands.push(demand);
+    flatDemands.push(evaporativeDemand(tempC, vpd, hour.wind_speed_kmh, radiation) * params.dryingFactor);
+    temps.push(tempC);
+
+    // Rolling 24h precipitation marks significant rain events
+    recentPrecip.push(precip);
+    if (recentPrecip.length > 24) recentPrecip.shift();
+    const rolling = recentPrecip.reduce((sum, p) => sum + p, 0);
+    if (precip > 0 && rolling >= PRECIP_THRESHOLD_MM) lastRainIdx = i;
+  });
+
+  const recentDemands = demands.slice(-DEMAND_WINDOW_HOURS);
+  const avgDemand = recentDemands.length > 0
+    ? recentDemands.reduce((sum, d) => sum + d, 0) / recentDemands.length
+    : params.dryingFactor;
+  const recentFlat = flatDemands.slice(-DEMAND_WINDOW_HOURS);
+  const avgFlatDemand = recentFlat.length > 0
+    ? recentFlat.reduce((sum, d) => sum + d, 0) / recentFlat.length
+    : params.dryingFactor;
+  const recentTemps = temps.slice(-DEMAND_WINDOW_HOURS);
+  const avgTemp = recentTemps.length > 0
+    ? recentTemps.reduce((sum, t) => sum + t, 0) / recentTemps.length
+    : null;
+
+  const hoursSinceRain = lastRainIdx >= 0
+    ? Math.max(0, Math.round((now.getTime() - new Date(past[lastRainIdx].time).getTime()) / MS_PER_HOUR))
+    : past.length;
+
+  return {
+    level,
+    hours_since_rain: hoursSinceRain,
+    avg_demand: avgDemand,
+    avg_flat_demand: avgFlatDemand,
+    avg_temp_c: avgTemp,
+    hours_simulated: past.length,
+  };
+}
+
+// Map bucket level to a trail condition. A threshold scale below 1 makes
+// every threshold stricter (see HIGH_CLAY_THRESHOLD_SCALE).
+export function conditionFromMoisture(level: number, thresholdScale: number = 1): TrailCondition {
+  if (level >= MOISTURE_THRESHOLDS.muddy * thresholdScale) return 'muddy';
+  if (level >= MOISTURE_THRESHOLDS.likely_muddy * thresholdScale) return 'likely_muddy';
+  if (level >= MOISTURE_THRESHOLDS.likely_rideable * thresholdScale) return 'likely_rideable';
+  return 'rideable';
+}
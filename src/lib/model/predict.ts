@@ -0,0 +1,571 @@
+import {
+  Aspect,
+  DayWindow,
+  DrainageClass,
+  ForecastDay,
+  SegmentPrediction,
+  SoilTexture,
+  Trail,
+  TrailCondition,
+  TrailPrediction,
+  TrailSegment,
+  WeatherDay,
+  WeatherHour,
+  WeatherQualityStatus,
+  WindowCondition,
+} from '../types';
+import {
+  CANOPY_SHADE_FACTOR,
+  DAY_WINDOW_HOURS,
+  DEFAULT_COEFFICIENTS,
+  DEFAULT_DRY_HOURS,
+  DryTimeCoefficients,
+  FORECAST_DAYS,
+  FROZEN_GROUND_HOURS,
+  HIGH_CLAY_PCT,
+  HIGH_CLAY_THRESHOLD_SCALE,
+  HIGH_ELEVATION_M,
+  HIGH_ELEVATION_MODIFIER,
+  LAPSE_RATE_C_PER_KM,
+} from './constants';
+import {
+  MoistureParams,
+  MoistureState,
+  conditionFromMoisture,
+  hourlyFromDaily,
+  simulateMoisture,
+} from './moisture';
+import { modelConfidence } from './confidence';
+import { explainPrediction } from './explanation';
+import { StationWeight } from './interpolation';
+import { DEFAULT_REGION, WEATHER_REGIONS, getNearestRegion, haversineKm } from './regions';
+import { TrailReport, blendReports } from './reports';
+import { rollupSegments } from './segments';
+import {
+  SNOW_COVER_SWE_MM,
+  SnowHour,
+  SnowpackState,
+  liquidInputHours,
+  simulateSnowpack,
+  snowpackAt,
+} from './snow';
+import { calculateRecentPrecip, calculateRecentPrecipTypes, daysUpTo, localDate, localNoon, localTime } from './weather';
+
+// Trail attributes the model reads
+export type ModelTrail = Pick<
+  Trail,
+  | 'centroid_lat'
+  | 'centroid_lon'
+  | 'elevation_min'
+  | 'elevation_max'
+  | 'dominant_aspect'
+  | 'soil_drainage_class'
+  | 'base_dry_hours'
+  | 'canopy_cover_pct'
+> & Partial<Pick<
+  Trail,
+  | 'aspect_distribution'
+  | 'soil_drainage_distribution'
+  | 'soil_sand_pct'
+  | 'soil_silt_pct'
+  | 'soil_clay_pct'
+  | 'soil_hydrologic_group'
+  | 'soil_surface_texture'
+>>;
+
+// Segment attributes the model reads: a trail's, plus its place along it
+export type ModelSegment = ModelTrail & Pick<TrailSegment, 'segment_index' | 'start_mi' | 'end_mi'>;
+
+// Weather for the trail, from one station or interpolated from several
+// (see interpolateWeather). Hourly data drives the moisture model; without
+// it, hours are synthesized from the daily summaries.
+export interface RegionWeather {
+  daily: WeatherDay[];
+  hourly?: WeatherHour[];
+  // Elevation the temperatures apply at (defaults to the region's station)
+  elevation_m?: number;
+  // Weighted distance to the grid cells it was interpolated from
+  distance_km?: number;
+  // Grid cells it was interpolated from
+  stations?: StationWeight[];
+  // Data quality of those cells (see quality.ts); ok when not checked
+  quality?: { status: WeatherQualityStatus; score: number };
+}
+
+export interface PredictOptions {
+  // Clock used for "hours since rain" (defaults to the current time)
+  now?: Date;
+  // Weather region the data came from when it carries no elevation
+  // (defaults to the nearest region)
+  region?: string;
+  // Days of condition forecast to produce (limited by forecast weather)
+  forecastDays?: number;
+  // Recent rider reports for this trail
+  reports?: TrailReport[];
+  // Dry-time coefficient set (defaults to the built-in constants)
+  coefficients?: DryTimeCoefficients;
+  // Trail segments to predict individually (see scripts/etl/segment-trails)
+  segments?: ModelSegment[];
+}
+
+// Weather and parameters a trail's model runs on
+interface TrailModel {
+  hours: WeatherHour[];      // soil input: rain plus snowmelt at the low end
+  params: MoistureParams;
+  thresholdScale: number;    // on the moisture thresholds (see conditionFromMoisture)
+  snowLow: SnowHour[];       // snowpack at elevation_min
+  snowHigh: SnowHour[];      // snowpack at elevation_max
+}
+
+export type PredictionResult = Pick<
+  TrailPrediction,
+  | 'condition'
+  | 'confidence'
+  | 'hours_since_rain'
+  | 'effective_dry_hours'
+  | 'factors'
+  | 'explanation'
+  | 'segments'
+  | 'windows'
+  | 'forecast'
+>;
+
+// Resolve base dry time from the trail's soil. The stored base_dry_hours
+// was derived from the default table at ETL time, so drainage classes are
+// looked up in the coefficient set first: the length-weighted mean over the
+// trail's drainage distribution, else its dominant class.
+export function getBaseDryHours(
+  trail: ModelTrail,
+  coefficients: DryTimeCoefficients = DEFAULT_COEFFICIENTS
+): number {
+  let weighted = 0;
+  let share = 0;
+  for (const [drainageClass, pct] of Object.entries(trail.soil_drainage_distribution ?? {})) {
+    const hours = coefficients.base_dry_hours[drainageClass as DrainageClass];
+    if (!hours || !pct) continue;
+    weighted += hours * pct;
+    share += pct;
+  }
+  if (share > 0) return weighted / share;
+
+  const fromClass = trail.soil_drainage_class
+    ? coefficients.base_dry_hours[trail.soil_drainage_class]
+    : undefined;
+  return fromClass || trail.base_dry_hours || DEFAULT_DRY_HOURS;
+}
+
+function stationElevationFor(region: string): number {
+  return (WEATHER_REGIONS[region] ?? WEATHER_REGIONS[DEFAULT_REGION]).elevation_m;
+}
+
+// Cooling from the weather station up to a trail elevation
+function lapseCorrection(elevationM: number, stationElevationM: number): number {
+  return (Math.max(0, elevationM - stationElevationM) / 1000) * LAPSE_RATE_C_PER_KM;
+}
+
+// Aspect modifier for a trail: the length-weighted mean over its terrain
+// aspect distribution (flat ground counts as 1.0) when there is one,
+// otherwise the dominant aspect's
+export function getAspectModifier(
+  trail: ModelTrail,
+  coefficients: DryTimeCoefficients = DEFAULT_COEFFICIENTS
+): number {
+  const distribution = Object.entries(trail.aspect_distribution ?? {});
+  const total = distribution.reduce((sum, [, pct]) => sum + (pct ?? 0), 0);
+  if (total > 0) {
+    return distribution.reduce((sum, [key, pct]) => {
+      const modifier = key === 'flat' ? 1.0 : coefficients.aspect_modifiers[key as Aspect] ?? 1.0;
+      return sum + modifier * (pct ?? 0);
+    }, 0) / total;
+  }
+  return trail.dominant_aspect
+    ? coefficients.aspect_modifiers[trail.dominant_aspect] || 1.0
+    : 1.0;
+}
+
+// Shade from tree canopy slows evaporation
+export function getCanopyModifier(trail: ModelTrail): number {
+  if (trail.canopy_cover_pct === null || trail.canopy_cover_pct === undefined) return 1.0;
+  return 1 - CANOPY_SHADE_FACTOR * (Math.min(100, Math.max(0, trail.canopy_cover_pct)) / 100);
+}
+
+// Clay-rich tread that is damaged by riding wet
+export function isHighClay(trail: ModelTrail): boolean {
+  return trail.soil_clay_pct !== null && trail.soil_clay_pct !== undefined && trail.soil_clay_pct >= HIGH_CLAY_PCT;
+}
+
+// Scale on the moisture thresholds: stricter on high-clay tread
+export function thresholdScaleFor(trail: ModelTrail): number {
+  return isHighClay(trail) ? HIGH_CLAY_THRESHOLD_SCALE : 1;
+}
+
+// Surface texture for display, null when SSURGO had none
+function soilTexture(trail: ModelTrail): SoilTexture | null {
+  const texture: SoilTexture = {
+    surface_texture: trail.soil_surface_texture ?? null,
+    sand_pct: trail.soil_sand_pct ?? null,
+    silt_pct: trail.soil_silt_pct ?? null,
+    clay_pct: trail.soil_clay_pct ?? null,
+    hydrologic_group: trail.soil_hydrologic_group ?? null,
+  };
+  return Object.values(texture).some((v) => v !== null) ? texture : null;
+}
+
+// Modifiers and corrections a trail's model was built with
+interface TrailModifiers {
+  aspect: number;
+  elevation: number;
+  canopy: number;
+  lowElevation: number;
+  highElevation: number;
+  lowCorrection: number;
+  highCorrection: number;
+}
+
+// Snowpack and soil-moisture model for a trail (or one of its segments)
+function buildTrailModel(
+  trail: ModelTrail,
+  weatherHours: WeatherHour[],
+  stationElevation: number,
+  coefficients: DryTimeCoefficients
+): { model: TrailModel; baseDryHours: number; dryHours: number; modifiers: TrailModifiers } {
+  // Base dry time from soil
+  const baseDryHours = getBaseDryHours(trail, coefficients);
+
+  // Aspect modifier (south-facing dries faster). It is kept in dry-time
+  // terms for calibration, but only scales the sun's share of drying:
+  // aspect counts for little on a cloudy, windy day.
+  const aspectMod = getAspectModifier(trail, coefficients);
+
+  // Elevation modifier (>8000ft = slower drying)
+  const elevMod = (trail.elevation_min && trail.elevation_min > HIGH_ELEVATION_M)
+    ? HIGH_ELEVATION_MODIFIER
+    : 1.0;
+
+  // Canopy modifier (shade reduces evaporative demand)
+  const canopyMod = getCanopyModifier(trail);
+
+  // Elevation lapse rate correction at both ends of the trail
+  // Weather stations are at low elevations; trails can be much higher
+  const lowElevation = trail.elevation_min || stationElevation;
+  const highElevation = trail.elevation_max || lowElevation;
+  const lowCorrection = lapseCorrection(lowElevation, stationElevation);
+  const highCorrection = lapseCorrection(highElevation, stationElevation);
+
+  // Snowpack at each end; sunny aspects (low drying modifier) melt faster
+  const meltFactor = 1 / aspectMod;
+  const snowLow = simulateSnowpack(weatherHours, { tempOffsetC: lowCorrection, meltFactor });
+  const snowHigh = simulateSnowpack(weatherHours, { tempOffsetC: highCorrection, meltFactor });
+
+  // Run the soil-moisture bucket on rain plus snowmelt
+  const dryHours = baseDryHours * elevMod;
+  const model: TrailModel = {
+    hours: liquidInputHours(weatherHours, snowLow),
+    params: { dryHours, dryingFactor: canopyMod, solarFactor: 1 / aspectMod, tempOffsetC: lowCorrection },
+    thresholdScale: thresholdScaleFor(trail),
+    snowLow,
+    snowHigh,
+  };
+
+  return {
+    model,
+    baseDryHours,
+    dryHours,
+    modifiers: {
+      aspect: aspectMod,
+      elevation: elevMod,
+      canopy: canopyMod,
+      lowElevation,
+      highElevation,
+      lowCorrection,
+      highCorrection,
+    },
+  };
+}
+
+// Main prediction algorithm
+export function predictTrailCondition(
+  trail: ModelTrail,
+  weather: RegionWeather,
+  options: PredictOptions = {}
+): PredictionResult {
+  const now = options.now ?? new Date();
+  const coefficients = options.coefficients ?? DEFAULT_COEFFICIENTS;
+  const region = options.region ?? getNearestRegion(trail.centroid_lat, trail.centroid_lon);
+  const stationElevation = weather.elevation_m ?? stationElevationFor(region);
+
+  const hasHourly = Boolean(weather.hourly && weather.hourly.length > 0);
+  const weatherHours = hasHourly ? weather.hourly! : hourlyFromDaily(weather.daily);
+
+  const { model, baseDryHours, dryHours, modifiers } = buildTrailModel(trail, weatherHours, stationElevation, coefficients);
+  const state = conditionAt(model, now);
+  const { moisture, snow } = state;
+
+  // Confidence in the model state at a time (see confidence.ts)
+  const confidenceFor = (at: Date, atState: ModelState) => modelConfidence({
+    condition: atState.condition,
+    moisture_level: atState.moisture.level,
+    threshold_scale: model.thresholdScale,
+    swe_max_mm: Math.max(atState.snow.low.swe_mm, atState.snow.high.swe_mm),
+    at,
+    now,
+    hours: weatherHours,
+    synthetic_hours: !hasHourly,
+    station_distance_km: weather.distance_km ?? null,
+    weather_quality: weather.quality?.score ?? 1,
+    soil_known: Boolean(trail.soil_drainage_class),
+    aspect_known: Boolean(trail.dominant_aspect || trail.aspect_distribution),
+    elevation_known: trail.elevation_min !== null,
+  });
+
+  // Segments carry their own soil, aspect and elevation; the trail's
+  // current condition is rolled up from them by length
+  const segments = (options.segments ?? []).map((segment): SegmentPrediction => {
+    const segmentModel = buildTrailModel(segment, weatherHours, stationElevation, coefficients).model;
+    const segmentState = conditionAt(segmentModel, now);
+    return {
+      index: segment.segment_index,
+      start_mi: segment.start_mi,
+      end_mi: segment.end_mi,
+      condition: segmentState.condition,
+      soil_moisture_pct: Math.round(segmentState.moisture.level * 100),
+    };
+  });
+  const rollup = rollupSegments(segments);
+  const modelCondition = rollup?.condition ?? state.condition;
+
+  // Time for saturated soil to dry out at the recent drying rate
+  const effectiveDryHours = Math.round(dryHours / Math.max(0.05, moisture.avg_demand));
+
+  // Blend in recent rider reports
+  const reports = options.reports ?? [];
+  const modelScore = confidenceFor(now, state);
+  const { condition, confidence, summary } = blendReports(modelCondition, modelScore.confidence, reports, now);
+
+  // Without interpolation, the weather came from the region's station
+  const regionStation = WEATHER_REGIONS[region] ?? WEATHER_REGIONS[DEFAULT_REGION];
+  const stations = weather.stations ?? [{
+    region,
+    weight: 1,
+    distance_km: haversineKm(trail.centroid_lat, trail.centroid_lon, regionStation.lat, regionStation.lon),
+  }];
+
+  const result: PredictionResult = {
+    condition,
+    confidence,
+    hours_since_rain: moisture.hours_since_rain,
+    effective_dry_hours: effectiveDryHours,
+    factors: {
+      soil: trail.soil_drainage_class,
+      soil_texture: soilTexture(trail),
+      aspect: trail.dominant_aspect,
+      elevation_min: trail.elevation_min,
+      elevation_max: trail.elevation_max,
+      recent_precip_mm: calculateRecentPrecip(daysUpTo(weather.daily, localDate(now)), 7),
+      recent_precip_types: calculateRecentPrecipTypes(daysUpTo(weather.daily, localDate(now)), 7),
+      base_dry_hours: baseDryHours,
+      soil_moisture_pct: Math.round(moisture.level * 100),
+      recent_reports: summary,
+      coefficients_version: coefficients.version,
+      snowpack: {
+        swe_low_mm: Math.round(snow.low.swe_mm * 10) / 10,
+        swe_high_mm: Math.round(snow.high.swe_mm * 10) / 10,
+        melt_out_date: estimateMeltOut(model, now),
+      },
+      worst_section: rollup?.worst ?? null,
+      confidence: { ...modelScore.factors, reports: confidence - modelScore.confidence },
+      weather_quality: weather.quality?.status ?? 'ok',
+      wet_damage_risk: isHighClay(trail) || (options.segments ?? []).some(isHighClay),
+    },
+    explanation: explainPrediction({
+      soil: trail.soil_drainage_class,
+      base_dry_hours: baseDryHours,
+      aspect: trail.dominant_aspect,
+      elevation_min: trail.elevation_min,
+      elevation_modifier: modifiers.elevation,
+      canopy_cover_pct: trail.canopy_cover_pct ?? null,
+      canopy_modifier: modifiers.canopy,
+      avg_demand: moisture.avg_demand,
+      avg_flat_demand: moisture.avg_flat_demand,
+      avg_temp_c: moisture.avg_temp_c,
+      stations: stations.map((s) => ({ id: s.region, weight: s.weight, distance_km: s.distance_km })),
+      weather_elevation_m: stationElevation,
+      hourly: hasHourly,
+      elevation_low_m: modifiers.lowElevation,
+      elevation_high_m: modifiers.highElevation,
+      correction_low_c: modifiers.lowCorrection,
+      correction_high_c: modifiers.highCorrection,
+      condition: state.condition,
+      moisture_level: moisture.level,
+      threshold_scale: model.thresholdScale,
+      swe_max_mm: Math.max(snow.low.swe_mm, snow.high.swe_mm),
+    }),
+    segments,
+    windows: windowConditions(model, now, confidenceFor, reports),
+    forecast: forecastConditions(model, now, confidenceFor, reports, options.forecastDays),
+  };
+
+  return result.factors.weather_quality === 'bad' ? withoutUsableWeather(result) : result;
+}
+
+// Weather too incomplete or stale to trust: keep the factors for display,
+// but call every condition unknown rather than guess
+function withoutUsableWeather(result: PredictionResult): PredictionResult {
+  return {
+    ...result,
+    condition: 'unknown',
+    confidence: 0,
+    segments: result.segments.map((s) => ({ ...s, condition: 'unknown' })),
+    windows: result.windows.map((w) => ({ ...w, condition: 'unknown', confidence: 0, frozen: false })),
+    forecast: result.forecast.map((d) => ({ ...d, condition: 'unknown', confidence: 0 })),
+    factors: { ...result.factors, worst_section: null },
+  };
+}
+
+// Model condition at an instant and the state behind it
+interface ModelState {
+  condition: TrailCondition;
+  moisture: MoistureState;
+  snow: { low: SnowpackState; high: SnowpackState };
+}
+
+type ConfidenceFor = (at: Date, state: ModelState) => { confidence: number };
+
+// Condition at an instant, using only weather up to that instant.
+// Snow on either end of the trail wins over soil moisture.
+function conditionAt(model: TrailModel, at: Date): ModelState {
+  const low = snowpackAt(model.snowLow, at);
+  const high = snowpackAt(model.snowHigh, at);
+  const moisture = simulateMoisture(model.hours, model.params, at);
+
+  const covered = [low, high].filter((end) => end.covered);
+  let condition: TrailCondition;
+  if (covered.length === 0) {
+    condition = conditionFromMoisture(moisture.level, model.thresholdScale);
+  } else {
+    condition = covered.every((end) => end.freeze_thaw) ? 'freeze_thaw' : 'snow';
+  }
+
+  return { condition, moisture, snow: { low, high } };
+}
+
+// Wet tread that has stayed below freezing is firm enough to ride
+function groundFrozen(model: TrailModel, at: Date): boolean {
+  const start = at.getTime() - FROZEN_GROUND_HOURS * 60 * 60 * 1000;
+  const recent = model.snowLow.filter((h) => {
+    const t = Date.parse(h.time);
+    return t > start && t <= at.getTime();
+  });
+  return recent.length >= FROZEN_GROUND_HOURS && recent.every((h) => h.temp_c <= 0);
+}
+
+// Condition in each window of today (morning/midday/evening), so a trail
+// can be frozen and rideable at 7am but muddy by 1pm
+function windowConditions(
+  model: TrailModel,
+  now: Date,
+  confidenceFor: ConfidenceFor,
+  reports: TrailReport[]
+): WindowCondition[] {
+  const lastHour = lastHourMs(model);
+  const today = localDate(now);
+  const windows: WindowCondition[] = [];
+
+  for (const [window, hour] of Object.entries(DAY_WINDOW_HOURS) as [DayWindow, number][]) {
+    const at = localTime(today, hour);
+    if (at.getTime() > lastHour) break;
+
+    const modelWindow = conditionAt(model, at);
+    const frozen = (modelWindow.condition === 'likely_muddy' || modelWindow.condition === 'muddy') &&
+      groundFrozen(model, at);
+    const { confidence } = confidenceFor(at, modelWindow);
+    const blended = blendReports(frozen ? 'rideable' : modelWindow.condition, confidence, reports, at);
+    windows.push({
+      window,
+      time: at.toISOString(),
+      condition: blended.condition,
+      confidence: blended.confidence,
+      frozen,
+    });
+  }
+
+  return windows;
+}
+
+// Time of the last hour of weather (end of the forecast)
+function lastHourMs(model: TrailModel): number {
+  return model.hours.reduce((latest, h) => Math.max(latest, Date.parse(h.time)), -Infinity);
+}
+
+// Local date both ends of the trail are clear of snow: from the forecast
+// when it melts out in range, otherwise extrapolated at the melt rate at
+// the end of the forecast. Null when there's no snow or it isn't melting.
+function estimateMeltOut(model: TrailModel, now: Date): string | null {
+  const { snowLow, snowHigh } = model;
+  if (!snowpackAt(snowLow, now).covered && !snowpackAt(snowHigh, now).covered) return null;
+
+  for (let i = 0; i < snowLow.length; i++) {
+    if (new Date(snowLow[i].time).getTime() <= now.getTime()) continue;
+    if (snowLow[i].swe_mm < SNOW_COVER_SWE_MM && snowHigh[i].swe_mm < SNOW_COVER_SWE_MM) {
+      return localDate(new Date(snowLow[i].time));
+    }
+  }
+
+  const end = new Date(snowLow[snowLow.length - 1].time);
+  let daysToClear = 0;
+  for (const series of [snowLow, snowHigh]) {
+    const state = snowpackAt(series, end);
+    if (!state.covered) continue;
+    if (state.melt_rate_mm_per_day <= 0) return null;
+    daysToClear = Math.max(daysToClear, (state.swe_mm - SNOW_COVER_SWE_MM) / state.melt_rate_mm_per_day);
+  }
+  return localDate(new Date(end.getTime() + Math.ceil(daysToClear) * 24 * 60 * 60 * 1000));
+}
+
+// Condition at local noon on each upcoming day covered by forecast weather
+function forecastConditions(
+  model: TrailModel,
+  now: Date,
+  confidenceFor: ConfidenceFor,
+  reports: TrailReport[],
+  days: number = FORECAST_DAYS
+): ForecastDay[] {
+  const lastHour = lastHourMs(model);
+  const today = localDate(now);
+  const forecast: ForecastDay[] = [];
+
+  for (let lead = 1; lead <= days; lead++) {
+    const date = localDate(new Date(localNoon(today).getTime() + lead * 24 * 60 * 60 * 1000));
+    const noon = localNoon(date);
+    if (noon.getTime() > lastHour) break;
+
+    const modelDay = conditionAt(model, noon);
+    // Confidence tapers with lead time; reports keep decaying through the
+    // forecast, so they fade out
+    const blended = blendReports(modelDay.condition, confidenceFor(noon, modelDay).confidence, reports, noon);
+    forecast.push({ date, condition: blended.condition, confidence: blended.confidence });
+  }
+
+  return forecast;
+}
+
+// Count predictions per condition
+export function summarizeConditions(
+  predictions: Array<{ condition: TrailCondition }>
+): Record<TrailCondition, number> {
+  const counts: Record<TrailCondition, number> = {
+    rideable: 0,
+    likely_rideable: 0,
+    likely_muddy: 0,
+    muddy: 0,
+    snow: 0,
+    freeze_thaw: 0,
+    unknown: 0,
+  };
+
+  for (const p of predictions) {
+    if (p.condition in counts) counts[p.condition]++;
+  }
+
+  return counts;
+}
@@ -0,0 +1,127 @@
+import { CellQuality, WeatherDay, WeatherHour, WeatherQualityStatus } from '../types';
+import { localDate } from './weather';
+
+// Past days (ending today) that must all have a daily record
+export const QUALITY_LOOKBACK_DAYS = 7;
+
+// Missing days in the lookback that make a cell unusable
+const BAD_MISSING_DAYS = 3;
+
+// Hours since the last fetch before a cell is stale, and unusable
+export const STALE_AFTER_HOURS = 36;
+const BAD_STALE_HOURS = 72;
+
+// Weather confidence kept for a degraded cell
+const DEGRADED_SCORE = 0.7;
+
+// A trail is unknown when at least this much of its blend is unusable
+const BAD_WEIGHT_SHARE = 0.5;
+
+// Physically plausible ranges for Colorado weather
+const PLAUSIBLE = {
+  temp_c: [-45, 45],
+  precip_day_mm: [0, 200],
+  precip_hour_mm: [0, 75],
+  humidity_pct: [0, 100],
+  wind_speed_kmh: [0, 200],
+} as const;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+function within(value: number, [min, max]: readonly [number, number]): boolean {
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+function plausibleDay(day: WeatherDay): boolean {
+  return within(day.precipitation_mm, PLAUSIBLE.precip_day_mm) &&
+    within(day.temp_max_c, PLAUSIBLE.temp_c) &&
+    within(day.temp_min_c, PLAUSIBLE.temp_c) &&
+    day.temp_min_c <= day.temp_max_c &&
+    within(day.humidity_pct, PLAUSIBLE.humidity_pct);
+}
+
+function plausibleHour(hour: WeatherHour): boolean {
+  return within(hour.precipitation_mm, PLAUSIBLE.precip_hour_mm) &&
+    within(hour.temp_c, PLAUSIBLE.temp_c) &&
+    within(hour.humidity_pct, PLAUSIBLE.humidity_pct) &&
+    within(hour.wind_speed_kmh, PLAUSIBLE.wind_speed_kmh);
+}
+
+// Check one cell's weather: drop implausible records, then flag days missing
+// from the lookback and a stale last fetch. Returns the cleaned weather.
+export function checkCellWeather(
+  cellId: string,
+  daily: WeatherDay[],
+  hourly: WeatherHour[],
+  fetchedAt: string | null,
+  now: Date
+): { quality: CellQuality; daily: WeatherDay[]; hourly: WeatherHour[] } {
+  const cleanDaily = daily.filter(plausibleDay);
+  const cleanHourly = hourly.filter(plausibleHour);
+  const implausible = (daily.length - cleanDaily.length) + (hourly.length - cleanHourly.length);
+
+  const have = new Set(cleanDaily.map((d) => d.date));
+  const missingDays: string[] = [];
+  for (let i = QUALITY_LOOKBACK_DAYS - 1; i >= 0; i--) {
+    const date = localDate(new Date(now.getTime() - i * 24 * MS_PER_HOUR));
+    if (!have.has(date)) missingDays.push(date);
+  }
+
+  const staleHours = fetchedAt === null
+    ? null
+    : Math.max(0, Math.round((now.getTime() - Date.parse(fetchedAt)) / MS_PER_HOUR));
+
+  let status: WeatherQualityStatus = 'ok';
+  if (
+    cleanDaily.length === 0 ||
+    missingDays.length >= BAD_MISSING_DAYS ||
+    staleHours === null ||
+    staleHours > BAD_STALE_HOURS
+  ) {
+    status = 'bad';
+  } else if (missingDays.length > 0 || implausible > 0 || staleHours > STALE_AFTER_HOURS) {
+    status = 'degraded';
+  }
+
+  return {
+    quality: {
+      cell_id: cellId,
+      status,
+      missing_days: missingDays,
+      implausible_records: implausible,
+      fetched_at: fetchedAt,
+      stale_hours: staleHours,
+    },
+    daily: cleanDaily,
+    hourly: cleanHourly,
+  };
+}
+
+// Weather confidence factor for a cell (1 ok, reduced when degraded, 0 bad)
+export function qualityScore(status: WeatherQualityStatus): number {
+  if (status === 'ok') return 1;
+  return status === 'degraded' ? DEGRADED_SCORE : 0;
+}
+
+// Quality of a trail's blended weather from the cells it draws on. Unusable
+// cells count as 0; the trail is bad once they carry half the weight.
+export function blendQuality(
+  weights: Array<{ region: string; weight: number }>,
+  qualityByCell: Record<string, CellQuality>
+): { status: WeatherQualityStatus; score: number; bad_share: number } {
+  let score = 0;
+  let badShare = 0;
+  let degraded = false;
+  for (const { region, weight } of weights) {
+    const status = qualityByCell[region]?.status ?? 'ok';
+    score += weight * qualityScore(status);
+    if (status === 'bad') badShare += weight;
+    if (status === 'degraded') degraded = true;
+  }
+
+  let status: WeatherQualityStatus = 'ok';
+  if (badShare >= BAD_WEIGHT_SHARE) status = 'bad';
+  else if (badShare > 0 || degraded) status = 'degraded';
+
+  return { status, score: Math.round(score * 100) / 100, bad_share: Math.round(badShare * 100) / 100 };
+}
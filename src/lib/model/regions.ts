@@ -0,0 +1,55 @@
+// Named weather stations with coordinates and elevation. Weather is fetched
+// on a grid derived from the trails (grid.ts); these are the original points,
+// kept as the fallback station elevation and default interpolation stations.
+export interface WeatherRegion {
+  lat: number;
+  lon: number;
+  name: string;
+  elevation_m: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export const DEFAULT_REGION = 'front_range';
+
+export const WEATHER_REGIONS: Record<string, WeatherRegion> = {
+  front_range: { lat: 39.75, lon: -105.2, name: 'Front Range', elevation_m: 1800 },
+  boulder: { lat: 40.015, lon: -105.27, name: 'Boulder', elevation_m: 1655 },
+  golden: { lat: 39.75, lon: -105.22, name: 'Golden', elevation_m: 1730 },
+  denver: { lat: 39.74, lon: -104.99, name: 'Denver', elevation_m: 1609 },
+  colorado_springs: { lat: 38.83, lon: -104.82, name: 'Colorado Springs', elevation_m: 1839 },
+  fort_collins: { lat: 40.58, lon: -105.08, name: 'Fort Collins', elevation_m: 1525 },
+  summit_county: { lat: 39.6, lon: -106.0, name: 'Summit County', elevation_m: 2926 },
+  leadville: { lat: 39.25, lon: -106.29, name: 'Leadville', elevation_m: 3094 },
+  aspen: { lat: 39.19, lon: -106.82, name: 'Aspen', elevation_m: 2438 },
+  durango: { lat: 37.28, lon: -107.88, name: 'Durango', elevation_m: 2003 },
+  steamboat: { lat: 40.48, lon: -106.83, name: 'Steamboat Springs', elevation_m: 2051 },
+  gunnison: { lat: 38.55, lon: -106.93, name: 'Gunnison', elevation_m: 2347 },
+  telluride: { lat: 37.94, lon: -107.81, name: 'Telluride', elevation_m: 2667 },
+};
+
+// Great-circle distance between two points
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Get nearest region for a trail based on coordinates
+export function getNearestRegion(lat: number, lon: number): string {
+  let nearest = DEFAULT_REGION;
+  let minDist = Infinity;
+
+  for (const [regionId, center] of Object.entries(WEATHER_REGIONS)) {
+    const dist = haversineKm(lat, lon, center.lat, center.lon);
+    if (dist < minDist) {
+      minDist = dist;
+      nearest = regionId;
+    }
+  }
+
+  return nearest;
+}
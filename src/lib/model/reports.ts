@@ -0,0 +1,148 @@
+import { ConditionReport, RecentReportsSummary, ReportCondition, TrailCondition } from '../types';
+
+// Reports older than this are ignored entirely
+export const REPORT_MAX_AGE_HOURS = 72;
+
+// A report's weight halves every REPORT_HALF_LIFE_HOURS
+export const REPORT_HALF_LIFE_HOURS = 12;
+
+// Share of report weight the leading condition needs to count as consensus
+const CONSENSUS_SHARE = 0.7;
+
+// Total weight (≈ fresh reports) needed to override the model outright
+const OVERRIDE_WEIGHT = 1.0;
+// Below this, reports are too stale to move the condition at all
+const ADJUST_WEIGHT = 0.25;
+
+const AGREEMENT_BOOST = 15;
+const CONFLICT_PENALTY = 30;
+
+// Ordinal wetness scale used to nudge the model toward reports
+const WETNESS_SCALE: TrailCondition[] = ['rideable', 'likely_rideable', 'likely_muddy', 'muddy'];
+
+// What each rider report means in model terms
+const REPORT_TO_CONDITION: Record<ReportCondition, TrailCondition> = {
+  dry: 'rideable',
+  tacky: 'rideable',
+  muddy: 'muddy',
+  snow: 'snow',
+};
+
+export type TrailReport = Pick<ConditionReport, 'condition' | 'reported_at'>;
+
+// Time-decayed weight of a single report
+export function reportWeight(reportedAt: string, now: Date): number {
+  const ageHours = (now.getTime() - new Date(reportedAt).getTime()) / (1000 * 60 * 60);
+  if (ageHours < 0 || ageHours > REPORT_MAX_AGE_HOURS) return 0;
+  return Math.pow(0.5, ageHours / REPORT_HALF_LIFE_HOURS);
+}
+
+// Whether a report and a model condition describe the same riding state
+function agrees(report: TrailCondition, model: TrailCondition): boolean {
+  const snowy = (c: TrailCondition) => c === 'snow' || c === 'freeze_thaw';
+  if (snowy(report) || snowy(model)) return snowy(report) === snowy(model);
+  const wet = (c: TrailCondition) => c === 'likely_muddy' || c === 'muddy';
+  return wet(report) === wet(model);
+}
+
+// Whether a model condition matches what a rider reported
+export function reportAgrees(report: ReportCondition, condition: TrailCondition): boolean {
+  return agrees(REPORT_TO_CONDITION[report], condition);
+}
+
+// Move one step along the wetness scale toward the target
+function nudgeToward(condition: TrailCondition, target: TrailCondition): TrailCondition {
+  const from = WETNESS_SCALE.indexOf(condition);
+  const to = WETNESS_SCALE.indexOf(target);
+  if (from < 0 || to < 0) return condition;
+  if (to > from) return WETNESS_SCALE[from + 1];
+  if (to < from) return WETNESS_SCALE[from - 1];
+  return condition;
+}
+
+// Blend recent rider reports into a model prediction.
+// Fresh consensus overrides the model, weaker consensus nudges it one step,
+// and conflicting reports only lower confidence.
+export function blendReports(
+  condition: TrailCondition,
+  confidence: number,
+  reports: TrailReport[],
+  now: Date
+): { condition: TrailCondition; confidence: number; summary: RecentReportsSummary } {
+  const weights: Partial<Record<ReportCondition, number>> = {};
+  let totalWeight = 0;
+  let count = 0;
+  let latestAt: string | null = null;
+
+  for (const report of reports) {
+    const weight = reportWeight(report.reported_at, now);
+    if (weight <= 0) continue;
+    weights[report.condition] = (weights[report.condition] ?? 0) + weight;
+    totalWeight += weight;
+    count++;
+    if (!latestAt || report.reported_at > latestAt) latestAt = report.reported_at;
+  }
+
+  const summary: RecentReportsSummary = {
+    count,
+    weight: Math.round(totalWeight * 100) / 100,
+    consensus: null,
+    agreement: 0,
+    latest_at: latestAt,
+    effect: 'none',
+  };
+
+  if (count === 0) {
+    return { condition, confidence, summary };
+  }
+
+  // Leading report condition and its share of the weight
+  const [leader, leaderWeight] = (Object.entries(weights) as [ReportCondition, number][])
+    .sort((a, b) => b[1] - a[1])[0];
+  const agreement = leaderWeight / totalWeight;
+  summary.agreement = Math.round(agreement * 100) / 100;
+
+  if (agreement < CONSENSUS_SHARE) {
+    // Riders disagree: keep the model, but trust it less
+    summary.effect = 'conflicting';
+    const penalty = CONFLICT_PENALTY * (1 - agreement) * Math.min(1, totalWeight);
+    return { condition, confidence: clampConfidence(confidence - penalty), summary };
+  }
+
+  summary.consensus = leader;
+  const reported = REPORT_TO_CONDITION[leader];
+  const strength = Math.min(1, totalWeight / OVERRIDE_WEIGHT) * agreement;
+
+  if (agrees(reported, condition)) {
+    summary.effect = 'confirmed';
+    return {
+      condition,
+      confidence: clampConfidence(confidence + AGREEMENT_BOOST * strength),
+      summary,
+    };
+  }
+
+  if (totalWeight >= OVERRIDE_WEIGHT) {
+    summary.effect = 'overridden';
+    return {
+      condition: reported,
+      confidence: clampConfidence(Math.max(confidence, 50 + 40 * strength)),
+      summary,
+    };
+  }
+
+  if (totalWeight >= ADJUST_WEIGHT) {
+    summary.effect = 'adjusted';
+    return {
+      condition: nudgeToward(condition, reported),
+      confidence: clampConfidence(confidence - AGREEMENT_BOOST * (1 - strength)),
+      summary,
+    };
+  }
+
+  return { condition, confidence, summary };
+}
+
+function clampConfidence(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
@@ -0,0 +1,67 @@
+import { SegmentPrediction, TrailCondition, WorstSection } from '../types';
+
+// Share of a trail's length that must be at or better than the rolled-up
+// condition. A muddy stretch over a fifth of the trail makes it muddy.
+export const SEGMENT_ROLLUP_SHARE = 0.8;
+
+// Conditions from best to worst riding
+const SEVERITY: TrailCondition[] = [
+  'rideable',
+  'likely_rideable',
+  'likely_muddy',
+  'muddy',
+  'freeze_thaw',
+  'snow',
+];
+
+function severity(condition: TrailCondition): number {
+  return SEVERITY.indexOf(condition);
+}
+
+// Roll segment conditions up to one trail condition by length, and find the
+// worst stretch (adjacent segments sharing the worst condition). Null when
+// no segment has a known condition.
+export function rollupSegments(
+  segments: SegmentPrediction[]
+): { condition: TrailCondition; worst: WorstSection | null } | null {
+  const known = segments
+    .filter((s) => severity(s.condition) >= 0)
+    .sort((a, b) => a.start_mi - b.start_mi);
+  if (known.length === 0) return null;
+
+  const length = (s: SegmentPrediction) => Math.max(0, s.end_mi - s.start_mi);
+  const total = known.reduce((sum, s) => sum + length(s), 0);
+
+  let condition: TrailCondition = known[0].condition;
+  if (total > 0) {
+    let covered = 0;
+    for (const candidate of SEVERITY) {
+      covered += known.filter((s) => s.condition === candidate).reduce((sum, s) => sum + length(s), 0);
+      condition = candidate;
+      if (covered >= total * SEGMENT_ROLLUP_SHARE - 1e-9) break;
+    }
+  }
+
+  const worstSeverity = Math.max(...known.map((s) => severity(s.condition)));
+  if (worstSeverity <= severity(condition)) return { condition, worst: null };
+
+  // Longest run of adjacent worst segments
+  let worst: WorstSection | null = null;
+  let run: WorstSection | null = null;
+  for (const segment of known) {
+    if (severity(segment.condition) !== worstSeverity) {
+      run = null;
+      continue;
+    }
+    if (run && Math.abs(run.end_mi - segment.start_mi) < 0.01) {
+      run.end_mi = segment.end_mi;
+    } else {
+      run = { index: segment.index, condition: segment.condition, start_mi: segment.start_mi, end_mi: segment.end_mi };
+    }
+    if (!worst || run.end_mi - run.start_mi > worst.end_mi - worst.start_mi) {
+      worst = { ...run };
+    }
+  }
+
+  return { condition, worst };
+}
@@ -0,0 +1,134 @@
+import { WeatherHour } from '../types';
+
+// Precipitation is all snow at or below this temperature, all rain at or above
+// ALL_RAIN_TEMP_C, and a linear mix in between
+const ALL_SNOW_TEMP_C = 0;
+const ALL_RAIN_TEMP_C = 2;
+
+// Fresh snow depth to water: 7 cm of new snow holds about 10 mm of water
+export const SNOW_CM_TO_SWE_MM = 10 / 7;
+
+// Degree-hour melt: mm of snow water equivalent per °C above freezing per hour
+// (≈ 3 mm/°C/day, typical for open Colorado slopes)
+export const MELT_FACTOR_MM_PER_DEGREE_HOUR = 0.125;
+
+// Snow water equivalent (mm) at which the tread counts as snow covered
+// (roughly 5 cm of settled snow)
+export const SNOW_COVER_SWE_MM = 5;
+
+// Window for detecting a freeze-thaw cycle in the snowpack
+const FREEZE_THAW_WINDOW_HOURS = 24;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface SnowParams {
+  // Lapse-rate correction subtracted from station temperature
+  tempOffsetC: number;
+  // Multiplier on melt (sunny aspects melt faster)
+  meltFactor: number;
+}
+
+// Snowpack after each hour of weather
+export interface SnowHour {
+  time: string;
+  temp_c: number;     // temperature at the trail elevation
+  swe_mm: number;     // snow water equivalent on the ground
+  melt_mm: number;    // melt this hour
+  liquid_mm: number;  // rain plus melt reaching the soil this hour
+}
+
+export interface SnowpackState {
+  swe_mm: number;
+  covered: boolean;
+  // Melting by day and refreezing by night: soft, rotten snow riders
+  // and hikers post-hole through
+  freeze_thaw: boolean;
+  // Mean melt per day over the freeze-thaw window
+  melt_rate_mm_per_day: number;
+}
+
+// Share of precipitation falling as snow at a temperature
+export function snowFraction(tempC: number): number {
+  if (tempC <= ALL_SNOW_TEMP_C) return 1;
+  if (tempC >= ALL_RAIN_TEMP_C) return 0;
+  return (ALL_RAIN_TEMP_C - tempC) / (ALL_RAIN_TEMP_C - ALL_SNOW_TEMP_C);
+}
+
+// Share of an hour's precipitation falling as snow at the trail. Without a
+// reported type it follows temperature. With one, the reported share holds
+// at the weather's elevation and temperature only shifts it for the lapse
+// rate, so 10 mm of rain at 20 °C never turns into snow and a reported
+// snowfall stays snow on a trail at the same height.
+export function snowShare(hour: WeatherHour, tempOffsetC: number): number {
+  const precip = Math.max(0, hour.precipitation_mm || 0);
+  const tempShare = snowFraction(hour.temp_c - tempOffsetC);
+  if (hour.snowfall_cm === null || hour.snowfall_cm === undefined || precip === 0) return tempShare;
+
+  const reported = Math.min(1, (hour.snowfall_cm * SNOW_CM_TO_SWE_MM) / precip);
+  const shift = tempShare - snowFraction(hour.temp_c);
+  return Math.min(1, Math.max(0, reported + shift));
+}
+
+// Degree-hour snowpack: snowfall accumulates as snow water equivalent, warm
+// hours melt it. Covers the whole series, forecast included.
+export function simulateSnowpack(hours: WeatherHour[], params: SnowParams): SnowHour[] {
+  const sorted = [...hours].sort((a, b) => a.time.localeCompare(b.time));
+  let swe = 0;
+
+  return sorted.map((hour) => {
+    const tempC = hour.temp_c - params.tempOffsetC;
+    const precip = Math.max(0, hour.precipitation_mm || 0);
+    const snowfall = precip * snowShare(hour, params.tempOffsetC);
+    swe += snowfall;
+
+    const potentialMelt = Math.max(0, tempC) * MELT_FACTOR_MM_PER_DEGREE_HOUR * params.meltFactor;
+    const melt = Math.min(swe, potentialMelt);
+    swe -= melt;
+
+    return {
+      time: hour.time,
+      temp_c: tempC,
+      swe_mm: swe,
+      melt_mm: melt,
+      liquid_mm: precip - snowfall + melt,
+    };
+  });
+}
+
+// Snowpack at an instant, from a simulated series
+export function snowpackAt(series: SnowHour[], at: Date): SnowpackState {
+  const atMs = at.getTime();
+  const windowStart = atMs - FREEZE_THAW_WINDOW_HOURS * MS_PER_HOUR;
+
+  let current: SnowHour | null = null;
+  let melt = 0;
+  let froze = false;
+  for (const hour of series) {
+    const t = Date.parse(hour.time);
+    if (t > atMs) break;
+    current = hour;
+    if (t > windowStart) {
+      melt += hour.melt_mm;
+      if (hour.temp_c < 0) froze = true;
+    }
+  }
+
+  const swe = current?.swe_mm ?? 0;
+  const covered = swe >= SNOW_COVER_SWE_MM;
+  return {
+    swe_mm: swe,
+    covered,
+    freeze_thaw: covered && melt > 0 && froze,
+    melt_rate_mm_per_day: melt * (24 / FREEZE_THAW_WINDOW_HOURS),
+  };
+}
+
+// Weather series with precipitation replaced by what reaches the soil
+// (rain plus snowmelt), for the moisture model
+export function liquidInputHours(hours: WeatherHour[], series: SnowHour[]): WeatherHour[] {
+  const liquidByTime = new Map(series.map((h) => [h.time, h.liquid_mm]));
+  return hours.map((hour) => ({
+    ...hour,
+    precipitation_mm: liquidByTime.get(hour.time) ?? hour.precipitation_mm,
+  }));
+}
@@ -0,0 +1,88 @@
+import { PrecipitationBreakdown, WeatherDay, WeatherHour } from '../types';
+import { DEFAULT_UTC_OFFSET_HOURS } from './constants';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Local calendar date (YYYY-MM-DD) for an instant
+export function localDate(at: Date, utcOffsetHours: number = DEFAULT_UTC_OFFSET_HOURS): string {
+  return new Date(at.getTime() + utcOffsetHours * MS_PER_HOUR).toISOString().split('T')[0];
+}
+
+// Instant of a local hour on a calendar date
+export function localTime(
+  date: string,
+  hour: number,
+  utcOffsetHours: number = DEFAULT_UTC_OFFSET_HOURS
+): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d, hour) - utcOffsetHours * MS_PER_HOUR);
+}
+
+// Instant of local noon on a calendar date
+export function localNoon(date: string, utcOffsetHours: number = DEFAULT_UTC_OFFSET_HOURS): Date {
+  return localTime(date, 12, utcOffsetHours);
+}
+
+// Days on or before a local date (drops forecast days)
+export function daysUpTo(weather: WeatherDay[], date: string): WeatherDay[] {
+  return weather.filter((d) => d.date <= date);
+}
+
+// Sort by date descending (most recent first)
+export function sortByDateDesc(weather: WeatherDay[]): WeatherDay[] {
+  return [...weather].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
+
+// Calculate average daily high over the last N days (null without data)
+export function calculateAvgTemp(weather: WeatherDay[], days: number = 3): number | null {
+  const recent = sortByDateDesc(weather).slice(0, days);
+  if (recent.length === 0) return null;
+
+  return recent.reduce((sum, d) => sum + d.temp_max_c, 0) / recent.length;
+}
+
+// Calculate total recent precipitation
+export function calculateRecentPrecip(weather: WeatherDay[], days: number = 7): number {
+  const recent = sortByDateDesc(weather).slice(0, days);
+  return recent.reduce((sum, d) => sum + d.precipitation_mm, 0);
+}
+
+// Recent precipitation by type, from the days that report it.
+// Null when none of them do.
+export function calculateRecentPrecipTypes(
+  weather: WeatherDay[],
+  days: number = 7
+): PrecipitationBreakdown | null {
+  const recent = sortByDateDesc(weather)
+    .slice(0, days)
+    .filter((d) => d.rain_mm !== null && d.rain_mm !== undefined);
+  if (recent.length === 0) return null;
+
+  return {
+    rain_mm: recent.reduce((sum, d) => sum + (d.rain_mm ?? 0) + (d.showers_mm ?? 0), 0),
+    snowfall_cm: recent.reduce((sum, d) => sum + (d.snowfall_cm ?? 0), 0),
+  };
+}
+
+// Rain and temperature range over the hours before an instant.
+// Null when no hours fall in the window.
+export function weatherBefore(
+  weather: WeatherHour[],
+  at: Date,
+  hours: number = 24
+): { precipitation_mm: number; temp_max_c: number; temp_min_c: number } | null {
+  const start = at.getTime() - hours * MS_PER_HOUR;
+  const window = weather.filter((h) => {
+    const t = Date.parse(h.time);
+    return t > start && t <= at.getTime();
+  });
+  if (window.length === 0) return null;
+
+  return {
+    precipitation_mm: window.reduce((sum, h) => sum + h.precipitation_mm, 0),
+    temp_max_c: Math.max(...window.map((h) => h.temp_c)),
+    temp_min_c: Math.min(...window.map((h) => h.temp_c)),
+  };
+}
@@ -1,4 +1,24 @@
-import { PredictionsData, TrailPrediction, TrailCondition } from './types';
+import { parseISO, format } from 'date-fns';
+import { DAY_WINDOW_HOURS } from './model';
+import {
+  ConfidenceFactors,
+  DayWindow,
+  ExplanationFactor,
+  ExplanationModifier,
+  ExplanationStation,
+  ExplanationThreshold,
+  PredictionExplanation,
+  PrecipitationBreakdown,
+  PredictionsData,
+  RecentReportsSummary,
+  SoilTexture,
+  TrailPrediction,
+  TrailCondition,
+  WeatherQualityStatus,
+  WindowCondition,
+  WorstSection,
+  CONDITION_LABELS,
+} from './types';
 
 // Load predictions from static JSON file
 export async function loadPredictions(): Promise<PredictionsData | null> {
@@ -88,6 +108,7 @@ export interface PredictionStats {
   likely_muddy: number;
   muddy: number;
   snow: number;
+  freeze_thaw: number;
   unknown: number;
 }
 
@@ -99,6 +120,7 @@ export function calculateStats(predictions: TrailPrediction[]): PredictionStats
     likely_muddy: 0,
     muddy: 0,
     snow: 0,
+    freeze_thaw: 0,
     unknown: 0,
   };
 
@@ -128,3 +150,222 @@ export function formatTimeSince(dateString: string): string {
     return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
   }
 }
+
+// Conditions riders treat as good to go
+export const GOOD_CONDITIONS: TrailCondition[] = ['rideable', 'likely_rideable'];
+
+export function isGoodCondition(condition: TrailCondition): boolean {
+  return GOOD_CONDITIONS.includes(condition);
+}
+
+// Best-to-worst order used for sorting
+const CONDITION_RANK: Record<TrailCondition, number> = {
+  rideable: 0,
+  likely_rideable: 1,
+  likely_muddy: 2,
+  muddy: 3,
+  freeze_thaw: 4,
+  snow: 5,
+  unknown: 6,
+};
+
+// Best window of today: best condition, then highest confidence
+export function getBestWindow(trail: TrailPrediction): WindowCondition | null {
+  const windows = trail.windows ?? [];
+  if (windows.length === 0) return null;
+  return windows.reduce((best, w) => {
+    const diff = CONDITION_RANK[w.condition] - CONDITION_RANK[best.condition];
+    return diff < 0 || (diff === 0 && w.confidence > best.confidence) ? w : best;
+  });
+}
+
+// Whether the condition changes over the course of today
+export function hasIntradayChange(trail: TrailPrediction): boolean {
+  const windows = trail.windows ?? [];
+  return windows.some((w) => w.condition !== windows[0].condition);
+}
+
+// Local clock time a window is evaluated at ("7am")
+export function formatWindowHour(window: DayWindow): string {
+  const hour = DAY_WINDOW_HOURS[window];
+  return `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+}
+
+export type TrailSort = 'condition' | 'best_window';
+
+export const TRAIL_SORT_LABELS: Record<TrailSort, string> = {
+  condition: 'Condition',
+  best_window: 'Best window today',
+};
+
+// Sort trails best first, by current condition or by today's best window
+export function sortTrails(trails: TrailPrediction[], sort: TrailSort): TrailPrediction[] {
+  const key = (trail: TrailPrediction) => {
+    const best = sort === 'best_window' ? getBestWindow(trail) : null;
+    return best ?? trail;
+  };
+  return [...trails].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    return CONDITION_RANK[ka.condition] - CONDITION_RANK[kb.condition] ||
+      kb.confidence - ka.confidence ||
+      a.name.localeCompare(b.name);
+  });
+}
+
+// Next change in rideability from the forecast: when a wet trail
+// dries out, or when a good trail is expected to go muddy again
+export interface ForecastOutlook {
+  kind: 'dries' | 'wets';
+  date: string;
+  condition: TrailCondition;
+}
+
+export function getForecastOutlook(trail: TrailPrediction): ForecastOutlook | null {
+  const forecast = trail.forecast ?? [];
+  if (trail.condition === 'unknown') return null;
+
+  const goodNow = isGoodCondition(trail.condition);
+  const change = forecast.find(
+    (day) => day.condition !== 'unknown' && isGoodCondition(day.condition) !== goodNow
+  );
+  if (!change) return null;
+
+  return { kind: goodNow ? 'wets' : 'dries', date: change.date, condition: change.condition };
+}
+
+// Short weekday label for a forecast date ("Sat")
+export function formatForecastDay(date: string): string {
+  return format(parseISO(date), 'EEE');
+}
+
+// Melt-out date label ("Jun 19")
+export function formatMeltOutDate(date: string): string {
+  return format(parseISO(date), 'MMM d');
+}
+
+export function formatForecastOutlook(outlook: ForecastOutlook): string {
+  const day = formatForecastDay(outlook.date);
+  if (outlook.kind === 'dries') return `Dry by ${day}`;
+  if (outlook.condition === 'snow' || outlook.condition === 'freeze_thaw') return `Snow from ${day}`;
+  return `Muddy from ${day}`;
+}
+
+// Worst stretch of a segmented trail ("Muddy mi 2.1–3.0")
+export function formatWorstSection(section: WorstSection): string {
+  return `${CONDITION_LABELS[section.condition]} mi ${section.start_mi.toFixed(1)}–${section.end_mi.toFixed(1)}`;
+}
+
+// Components of the confidence, weakest first ("weather 70%, threshold margin 82%, ...")
+export function formatConfidenceFactors(factors: ConfidenceFactors): string {
+  const parts: Array<[string, number]> = [
+    ['threshold margin', factors.threshold],
+    ['weather data', factors.weather],
+    ['forecast lead', factors.lead_time],
+    ['trail inputs', factors.inputs],
+  ];
+  const text = parts
+    .sort((a, b) => a[1] - b[1])
+    .map(([label, score]) => `${label} ${Math.round(score * 100)}%`)
+    .join(', ');
+  if (factors.reports === 0) return text;
+  return `${text}; rider reports ${factors.reports > 0 ? '+' : '−'}${Math.abs(factors.reports)} pts`;
+}
+
+// What fell, by type ("6.2 mm rain, 4.0 cm snow")
+export function formatPrecipTypes(types: PrecipitationBreakdown): string {
+  const parts: string[] = [];
+  if (types.rain_mm >= 0.1) parts.push(`${types.rain_mm.toFixed(1)} mm rain`);
+  if (types.snowfall_cm >= 0.1) parts.push(`${types.snowfall_cm.toFixed(1)} cm snow`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+// Surface soil as read from SSURGO ("Clay loam, 38% clay, group D")
+export function formatSoilTexture(texture: SoilTexture): string {
+  const parts: string[] = [];
+  if (texture.surface_texture) parts.push(texture.surface_texture);
+  if (texture.clay_pct !== null) parts.push(`${Math.round(texture.clay_pct)}% clay`);
+  if (texture.hydrologic_group) parts.push(`group ${texture.hydrologic_group}`);
+  return parts.join(', ');
+}
+
+export const WET_DAMAGE_WARNING = 'Do not ride wet – damage risk';
+
+// High-clay trail that is wet right now, so riding it would rut the tread
+export function isWetDamageNow(trail: TrailPrediction): boolean {
+  return Boolean(trail.factors.wet_damage_risk) &&
+    ['likely_muddy', 'muddy', 'freeze_thaw'].includes(trail.condition);
+}
+
+// Why the weather behind a prediction is suspect
+export function formatWeatherQuality(status: WeatherQualityStatus): string {
+  if (status === 'bad') return 'Weather data is missing or stale, so conditions are unknown';
+  return 'Some weather data is missing, stale or implausible; confidence is reduced';
+}
+
+export const EXPLANATION_FACTOR_LABELS: Record<ExplanationFactor, string> = {
+  aspect: 'Aspect',
+  elevation: 'Elevation',
+  canopy: 'Canopy',
+  drying_weather: 'Drying Weather',
+};
+
+// Modifier input as read by the model ("S-facing", "8,200'", "40% cover")
+export function formatModifierInput(modifier: ExplanationModifier): string {
+  if (modifier.input === null) return 'Unknown';
+  switch (modifier.factor) {
+    case 'aspect':
+      return `${modifier.input}-facing`;
+    case 'elevation':
+      return `${Math.round(Number(modifier.input) * 3.28084).toLocaleString()}'`;
+    case 'canopy':
+      return `${modifier.input}% cover`;
+    case 'drying_weather':
+      return `${modifier.input}°C average over 3 days`;
+  }
+}
+
+// Effect of a multiplier on drying time ("×0.60 drying time, dries faster")
+export function formatMultiplier(multiplier: number): string {
+  if (Math.abs(multiplier - 1) < 0.005) return 'no effect on drying time';
+  return `×${multiplier.toFixed(2)} drying time, dries ${multiplier < 1 ? 'faster' : 'slower'}`;
+}
+
+// Grid cells the weather was blended from ("g39.750_-105.250 62% at 4.1 km")
+export function formatStations(stations: ExplanationStation[]): string {
+  return [...stations]
+    .sort((a, b) => b.weight - a.weight)
+    .map((s) => `${s.id} ${Math.round(s.weight * 100)}% at ${s.distance_km} km`)
+    .join(', ');
+}
+
+// Cooling applied from the weather elevation up to the trail ("−3.2 to −5.1°C")
+export function formatLapseRate(lapse: PredictionExplanation['lapse_rate']): string {
+  const low = lapse.correction_low_c.toFixed(1);
+  const high = lapse.correction_high_c.toFixed(1);
+  return low === high ? `−${low}°C` : `−${low} to −${high}°C`;
+}
+
+// Threshold that decided the condition ("Soil moisture 31%, above 25%")
+export function formatThreshold(threshold: ExplanationThreshold): string {
+  const unit = threshold.metric === 'soil_moisture' ? '%' : ' mm';
+  const metric = threshold.metric === 'soil_moisture' ? 'Soil moisture' : 'Snow water';
+  return `${metric} ${threshold.value}${unit}, ${threshold.side} ${threshold.threshold}${unit}`;
+}
+
+// How recent rider reports affected the prediction
+export function formatReportEffect(summary: RecentReportsSummary): string {
+  const consensus = summary.consensus ? `mostly ${summary.consensus}` : 'mixed';
+  switch (summary.effect) {
+    case 'confirmed':
+      return `Riders report ${consensus}, confirming the model`;
+    case 'adjusted':
+      return `Riders report ${consensus}, shifting the prediction`;
+    case 'overridden':
+      return `Riders report ${consensus}, overriding the model`;
+    case 'conflicting':
+      return 'Riders disagree, so confidence is lower';
+    default:
+      return `Riders report ${consensus}`;
+  }
+}
@@ -1,18 +1,33 @@
 // Trail condition types
-export type TrailCondition = 'rideable' | 'likely_rideable' | 'likely_muddy' | 'muddy' | 'snow' | 'unknown';
+export type TrailCondition =
+  | 'rideable'
+  | 'likely_rideable'
+  | 'likely_muddy'
+  | 'muddy'
+  | 'snow'
+  | 'freeze_thaw'   // melting snowpack that refreezes overnight (post-holing)
+  | 'unknown';
 
 // Soil drainage classes from SSURGO
 export type DrainageClass = 
   | 'Excessively drained'
+  | 'Somewhat excessively drained'
   | 'Well drained'
   | 'Moderately well drained'
   | 'Somewhat poorly drained'
   | 'Poorly drained'
   | 'Very poorly drained';
 
+// Percent of a trail's length on each drainage class, sampled along it
+export type DrainageDistribution = Partial<Record<DrainageClass, number>>;
+
 // Cardinal directions for aspect
 export type Aspect = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
 
+// Percent of a trail's length facing each way, from terrain; 'flat' for
+// ground too level to face anywhere
+export type AspectDistribution = Partial<Record<Aspect | 'flat', number>>;
+
 // GeoJSON types for trail geometry
 export interface GeoJSONLineString {
   type: 'LineString';
@@ -26,6 +41,12 @@ export interface GeoJSONMultiLineString {
 
 export type TrailGeometry = GeoJSONLineString | GeoJSONMultiLineString;
 
+// Elevation at a distance along the trail (the trail's reported miles)
+export interface ElevationProfilePoint {
+  distance_mi: number;
+  elevation_m: number;
+}
+
 // Trail from database
 export interface Trail {
   id: number;
@@ -38,9 +59,19 @@ export interface Trail {
   centroid_lon: number;
   elevation_min: number | null;
   elevation_max: number | null;
-  elevation_gain: number | null;
+  elevation_gain: number | null;       // cumulative climbing, m
+  elevation_loss: number | null;       // cumulative descending, m
+  elevation_profile: ElevationProfilePoint[] | null;
   dominant_aspect: Aspect | null;
+  aspect_distribution: AspectDistribution | null;
+  slope_mean_deg: number | null;
   soil_drainage_class: DrainageClass | null;
+  soil_drainage_distribution: DrainageDistribution | null;
+  soil_sand_pct: number | null;        // surface horizon, length-weighted
+  soil_silt_pct: number | null;
+  soil_clay_pct: number | null;
+  soil_hydrologic_group: string | null; // A-D, dual groups like "C/D"
+  soil_surface_texture: string | null;
   canopy_cover_pct: number | null;
   length_miles: number | null;
   open_to_bikes: boolean;
@@ -49,35 +80,266 @@ export interface Trail {
   updated_at: string;
 }
 
+// Fixed-length chunk of a trail, enriched like a trail
+export interface TrailSegment {
+  id: number;
+  trail_id: number;
+  segment_index: number;        // order along the trail
+  geometry: GeoJSONLineString;
+  start_mi: number;             // distance along the trail
+  end_mi: number;
+  centroid_lat: number;
+  centroid_lon: number;
+  elevation_min: number | null;
+  elevation_max: number | null;
+  dominant_aspect: Aspect | null;
+  aspect_distribution: AspectDistribution | null;
+  soil_drainage_class: DrainageClass | null;
+  soil_drainage_distribution: DrainageDistribution | null;
+  soil_clay_pct: number | null;
+  canopy_cover_pct: number | null;
+  base_dry_hours: number | null;
+}
+
+// Conditions riders can report
+export type ReportCondition = 'dry' | 'tacky' | 'muddy' | 'snow';
+
 // Condition report from users
 export interface ConditionReport {
   id: number;
   trail_id: number;
-  condition: 'dry' | 'tacky' | 'muddy' | 'snow';
+  condition: ReportCondition;
   reported_at: string;
   user_id: string | null;
 }
 
-// Weather data from cache
+// Weather data from cache. precipitation_mm is the total (liquid
+// equivalent); the breakdown by type is only there when the provider
+// reports it.
 export interface WeatherDay {
   date: string;
   precipitation_mm: number;
   temp_max_c: number;
   temp_min_c: number;
   humidity_pct: number;
+  rain_mm?: number | null;            // large-scale rain
+  showers_mm?: number | null;         // convective rain
+  snowfall_cm?: number | null;        // fresh snow depth
+  precipitation_hours?: number | null;
+  shortwave_radiation_mj?: number | null; // daily total, MJ/m²
+  wind_speed_mean_kmh?: number | null;
+  vpd_max_kpa?: number | null;        // vapour pressure deficit
+}
+
+// Hourly weather (time is the start of the hour, UTC ISO string)
+export interface WeatherHour {
+  time: string;
+  precipitation_mm: number;
+  temp_c: number;
+  humidity_pct: number;
+  wind_speed_kmh: number;
+  rain_mm?: number | null;
+  showers_mm?: number | null;
+  snowfall_cm?: number | null;
+  shortwave_radiation_wm2?: number | null; // mean over the hour
+  vpd_kpa?: number | null;            // vapour pressure deficit
+}
+
+// Stored columns behind WeatherDay (weather_cache) and WeatherHour
+// (weather_hourly). Everything that replays the model selects these, so
+// calibration sees the same drying and precipitation-type inputs as the
+// daily predictions.
+export const WEATHER_DAY_COLUMNS =
+  'date, precipitation_mm, temp_max_c, temp_min_c, humidity_pct, rain_mm, showers_mm, snowfall_cm, ' +
+  'precipitation_hours, shortwave_radiation_mj, wind_speed_mean_kmh, vpd_max_kpa';
+export const WEATHER_HOUR_COLUMNS =
+  'time, precipitation_mm, temp_c, humidity_pct, wind_speed_kmh, rain_mm, showers_mm, snowfall_cm, ' +
+  'shortwave_radiation_wm2, vpd_kpa';
+
+// What fell over a period, when the weather reports precipitation type
+export interface PrecipitationBreakdown {
+  rain_mm: number;      // rain and showers
+  snowfall_cm: number;
 }
 
 export interface WeatherCache {
   id: number;
-  region: string;
+  cell_id: string;              // weather grid cell
   date: string;
   precipitation_mm: number;
   temp_max_c: number;
   temp_min_c: number;
   humidity_pct: number;
+  rain_mm: number | null;
+  showers_mm: number | null;
+  snowfall_cm: number | null;
+  precipitation_hours: number | null;
+  shortwave_radiation_mj: number | null;
+  wind_speed_mean_kmh: number | null;
+  vpd_max_kpa: number | null;
   fetched_at: string;
 }
 
+// Weather data quality: degraded data lowers confidence, bad data makes
+// predictions unknown
+export type WeatherQualityStatus = 'ok' | 'degraded' | 'bad';
+
+// Data-quality check of one weather grid cell
+export interface CellQuality {
+  cell_id: string;
+  status: WeatherQualityStatus;
+  missing_days: string[];         // lookback dates with no daily record
+  implausible_records: number;    // daily and hourly records dropped
+  fetched_at: string | null;      // most recent fetch
+  stale_hours: number | null;     // hours since that fetch
+}
+
+// Data-quality section of the predictions output
+export interface DataQualitySummary {
+  checked_at: string;
+  cells: Record<WeatherQualityStatus, number>;
+  trails: Record<WeatherQualityStatus, number>;
+  issues: CellQuality[];          // cells that are not ok
+}
+
+// How recent rider reports affected a prediction
+export interface RecentReportsSummary {
+  count: number;
+  weight: number;                     // sum of time-decayed report weights
+  consensus: ReportCondition | null;  // null when reports conflict
+  agreement: number;                  // share of weight behind the leading condition
+  latest_at: string | null;
+  effect: 'none' | 'confirmed' | 'adjusted' | 'overridden' | 'conflicting';
+}
+
+// Modelled snowpack at each end of the trail
+export interface SnowpackFactors {
+  swe_low_mm: number;             // snow water equivalent at elevation_min
+  swe_high_mm: number;            // snow water equivalent at elevation_max
+  melt_out_date: string | null;   // expected local date the trail is clear of snow
+}
+
+// Most severe stretch of a trail, called out when worse than the rollup
+export interface WorstSection {
+  index: number;
+  condition: TrailCondition;
+  start_mi: number;
+  end_mi: number;
+}
+
+// What a prediction's confidence is made of. The first four are 0-1 scores
+// multiplied together; reports is the points rider reports added or removed.
+export interface ConfidenceFactors {
+  threshold: number;  // distance from flipping wet/dry or snow/clear (0.5-1)
+  weather: number;    // hourly vs daily data, distance to grid cells, gaps
+  lead_time: number;  // forecast skill falling off with lead time
+  inputs: number;     // soil, aspect and elevation known
+  reports: number;
+}
+
+// Step of the dry-time calculation. Effective dry time is the soil's base
+// dry hours times each multiplier.
+export type ExplanationFactor = 'aspect' | 'elevation' | 'canopy' | 'drying_weather';
+
+export interface ExplanationModifier {
+  factor: ExplanationFactor;
+  input: string | number | null;  // aspect, elevation_min (m), canopy (%), mean trail temp (°C)
+  multiplier: number;             // on dry time: above 1 dries slower
+}
+
+// Grid cell (or legacy region) weather was taken from
+export interface ExplanationStation {
+  id: string;
+  weight: number;                 // share of the blend, 0-1
+  distance_km: number;
+}
+
+// Threshold nearest the model state, on the side that gives its condition
+export interface ExplanationThreshold {
+  metric: 'soil_moisture' | 'snow_water';
+  value: number;                  // soil moisture % or snow water mm
+  threshold: number;              // same unit
+  side: 'above' | 'below';
+  condition: TrailCondition;      // model condition on the other side
+}
+
+// What went into a prediction, as the model used it
+export interface PredictionExplanation {
+  soil: DrainageClass | null;
+  base_dry_hours: number;
+  modifiers: ExplanationModifier[];
+  weather: {
+    stations: ExplanationStation[];
+    elevation_m: number;          // elevation the blended temperatures apply at
+    hourly: boolean;              // false when hours were synthesized from daily data
+  };
+  lapse_rate: {
+    elevation_low_m: number;
+    elevation_high_m: number;
+    correction_low_c: number;     // cooling from the weather elevation up to each end
+    correction_high_c: number;
+  };
+  threshold: ExplanationThreshold;
+}
+
+// Surface soil texture from SSURGO
+export interface SoilTexture {
+  surface_texture: string | null;
+  sand_pct: number | null;
+  silt_pct: number | null;
+  clay_pct: number | null;
+  hydrologic_group: string | null;
+}
+
+// Inputs that influenced a prediction
+export interface PredictionFactors {
+  soil: DrainageClass | null;
+  soil_texture: SoilTexture | null;
+  aspect: Aspect | null;
+  elevation_min: number | null;
+  elevation_max: number | null;
+  recent_precip_mm: number;
+  recent_precip_types: PrecipitationBreakdown | null; // same 7 days, by type
+  base_dry_hours: number;
+  soil_moisture_pct: number;
+  recent_reports: RecentReportsSummary;
+  coefficients_version: number | null; // calibrated set used, null for defaults
+  snowpack: SnowpackFactors;
+  worst_section: WorstSection | null;
+  confidence: ConfidenceFactors;
+  weather_quality: WeatherQualityStatus;
+  wet_damage_risk: boolean; // high-clay tread: do not ride wet
+}
+
+// Current condition of one trail segment
+export interface SegmentPrediction {
+  index: number;
+  start_mi: number;
+  end_mi: number;
+  condition: TrailCondition;
+  soil_moisture_pct: number;
+  geometry?: GeoJSONLineString;
+}
+
+// Times of day predictions are broken into
+export type DayWindow = 'morning' | 'midday' | 'evening';
+
+// Predicted condition for one window of today
+export interface WindowCondition {
+  window: DayWindow;
+  time: string;        // instant the window was evaluated at (UTC ISO)
+  condition: TrailCondition;
+  confidence: number;
+  frozen: boolean;     // wet but frozen solid, so rideable
+}
+
+// Predicted condition for a future day
+export interface ForecastDay {
+  date: string;
+  condition: TrailCondition;
+  confidence: number;
+}
+
 // Prediction output
 export interface TrailPrediction {
   id: number;
@@ -89,29 +351,51 @@ export interface TrailPrediction {
   confidence: number;
   hours_since_rain: number;
   effective_dry_hours: number;
-  factors: {
-    soil: DrainageClass | null;
-    aspect: Aspect | null;
-    elevation_min: number | null;
-    elevation_max: number | null;
-    recent_precip_mm: number;
-    base_dry_hours: number;
-  };
+  factors: PredictionFactors;
+  explanation: PredictionExplanation;
+  segments: SegmentPrediction[];
+  windows: WindowCondition[];
+  forecast: ForecastDay[];
   geometry?: TrailGeometry;
 }
 
+// One day of a trail's archived predictions (trail_prediction_history)
+export interface TrailHistoryDay {
+  date: string;                   // local date
+  condition: TrailCondition;
+  confidence: number;
+  soil_moisture_pct: number | null;
+  precip_24h_mm: number | null;   // rain in the 24 hours before the prediction
+  temp_max_c: number | null;
+  temp_min_c: number | null;
+}
+
 export interface PredictionsData {
   generated_at: string;
   region: string;
   total_trails: number;
   summary?: Record<TrailCondition, number>;
+  data_quality?: DataQualitySummary;
   trails: TrailPrediction[];
 }
 
 // API response types
+export interface TrailProfileResponse {
+  trail_id: number;
+  profile: ElevationProfilePoint[];
+  gain_m: number | null;
+  loss_m: number | null;
+}
+
+export interface TrailHistoryResponse {
+  trail_id: number;
+  days: number;
+  history: TrailHistoryDay[];
+}
+
 export interface ReportConditionRequest {
   trail_id: number;
-  condition: 'dry' | 'tacky' | 'muddy' | 'snow';
+  condition: ReportCondition;
   notes?: string;
 }
 
@@ -127,9 +411,17 @@ export const CONDITION_COLORS: Record<TrailCondition, string> = {
   likely_muddy: '#f97316',   // orange-500
   muddy: '#ef4444',          // red-500
   snow: '#60a5fa',           // blue-400
+  freeze_thaw: '#a78bfa',    // violet-400
   unknown: '#6b7280',        // gray-500
 };
 
+// Intraday window labels for display
+export const DAY_WINDOW_LABELS: Record<DayWindow, string> = {
+  morning: 'Morning',
+  midday: 'Midday',
+  evening: 'Evening',
+};
+
 // Condition labels for display
 export const CONDITION_LABELS: Record<TrailCondition, string> = {
   rideable: 'Good',
@@ -137,27 +429,6 @@ export const CONDITION_LABELS: Record<TrailCondition, string> = {
   likely_muddy: 'Likely Muddy',
   muddy: 'Muddy',
   snow: 'Snow/Ice',
+  freeze_thaw: 'Freeze-Thaw',
   unknown: 'Unknown',
 };
-
-// Base dry hours by drainage class
-export const BASE_DRY_HOURS: Record<DrainageClass, number> = {
-  'Excessively drained': 6,
-  'Well drained': 24,
-  'Moderately well drained': 48,
-  'Somewhat poorly drained': 72,
-  'Poorly drained': 120,
-  'Very poorly drained': 168,
-};
-
-// Aspect modifiers for drying time
-export const ASPECT_MODIFIERS: Record<Aspect, number> = {
-  'S': 0.6,
-  'SE': 0.7,
-  'SW': 0.7,
-  'E': 0.85,
-  'W': 0.85,
-  'NE': 1.1,
-  'NW': 1.1,
-  'N': 1.3,
-};
@@ -0,0 +1,27 @@
+-- Hourly Weather Table
+-- Hourly observations/forecast per region, feeding the soil-moisture model
+
+CREATE TABLE IF NOT EXISTS weather_hourly (
+  id SERIAL PRIMARY KEY,
+  region TEXT NOT NULL,
+  time TIMESTAMP WITH TIME ZONE NOT NULL,  -- start of the hour (UTC)
+  precipitation_mm DECIMAL(5, 2),
+  temp_c DECIMAL(4, 1),
+  humidity_pct INTEGER,
+  wind_speed_kmh DECIMAL(5, 1),
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Unique constraint on region + hour
+  UNIQUE(region, time)
+);
+
+-- Index for weather lookups
+CREATE INDEX IF NOT EXISTS idx_weather_hourly_region_time ON weather_hourly(region, time DESC);
+
+-- Enable RLS
+ALTER TABLE weather_hourly ENABLE ROW LEVEL SECURITY;
+
+-- Public read access
+CREATE POLICY "Allow public read on weather_hourly"
+  ON weather_hourly FOR SELECT
+  USING (true);
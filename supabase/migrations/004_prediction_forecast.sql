@@ -0,0 +1,5 @@
+-- Multi-day condition forecast
+-- Array of { date, condition, confidence } for the next 7 days
+
+ALTER TABLE trail_predictions
+  ADD COLUMN IF NOT EXISTS forecast JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,40 @@
+-- Model Coefficients Table
+-- Versioned dry-time coefficient sets fitted from rider reports.
+-- generate-predictions uses the active set, or built-in defaults if none.
+
+CREATE TABLE IF NOT EXISTS model_coefficients (
+  id SERIAL PRIMARY KEY,
+  version INTEGER NOT NULL,
+
+  -- Coefficients keyed by drainage class / aspect
+  base_dry_hours JSONB NOT NULL,
+  aspect_modifiers JSONB NOT NULL,
+
+  -- Fit statistics: accuracy of the previous set vs this one on the
+  -- fitting reports and on the held-out (most recent) reports
+  sample_count INTEGER NOT NULL DEFAULT 0,
+  holdout_count INTEGER NOT NULL DEFAULT 0,
+  fit_accuracy_before DECIMAL(5, 4),
+  fit_accuracy_after DECIMAL(5, 4),
+  holdout_accuracy_before DECIMAL(5, 4),
+  holdout_accuracy_after DECIMAL(5, 4),
+  based_on_version INTEGER,
+
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE(version)
+);
+
+-- At most one active set
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_coefficients_active
+  ON model_coefficients(is_active) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE model_coefficients ENABLE ROW LEVEL SECURITY;
+
+-- Public read access
+CREATE POLICY "Allow public read on model_coefficients"
+  ON model_coefficients FOR SELECT
+  USING (true);
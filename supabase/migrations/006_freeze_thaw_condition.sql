@@ -0,0 +1,8 @@
+-- Freeze-Thaw Condition
+-- The snowpack model adds a freeze-thaw (post-holing) state for melting
+-- snow that refreezes overnight. Snowpack details live in factors.
+
+ALTER TABLE trail_predictions DROP CONSTRAINT IF EXISTS trail_predictions_condition_check;
+
+ALTER TABLE trail_predictions ADD CONSTRAINT trail_predictions_condition_check
+  CHECK (condition IN ('rideable', 'likely_rideable', 'likely_muddy', 'muddy', 'snow', 'freeze_thaw'));
@@ -0,0 +1,6 @@
+-- Intraday condition windows
+-- Array of { window, time, condition, confidence, frozen } for morning,
+-- midday and evening today
+
+ALTER TABLE trail_predictions
+  ADD COLUMN IF NOT EXISTS windows JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,43 @@
+-- Trail Segments
+-- Each trail cut into ~1 km chunks with their own aspect, elevation range
+-- and soil (see scripts/etl/segment-trails.ts), predicted individually
+
+CREATE TABLE IF NOT EXISTS trail_segments (
+  id SERIAL PRIMARY KEY,
+  trail_id INTEGER NOT NULL REFERENCES trails(id) ON DELETE CASCADE,
+  segment_index INTEGER NOT NULL,
+  geometry JSONB NOT NULL,      -- GeoJSON LineString
+
+  -- Position along the trail
+  start_mi DECIMAL(6, 2) NOT NULL,
+  end_mi DECIMAL(6, 2) NOT NULL,
+  centroid_lat DECIMAL(10, 6) NOT NULL,
+  centroid_lon DECIMAL(10, 6) NOT NULL,
+
+  -- Enrichment, as on trails
+  elevation_min INTEGER,
+  elevation_max INTEGER,
+  dominant_aspect TEXT,
+  soil_drainage_class TEXT,
+  canopy_cover_pct INTEGER,
+  base_dry_hours INTEGER DEFAULT 48,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(trail_id, segment_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trail_segments_trail ON trail_segments(trail_id);
+
+-- Enable RLS
+ALTER TABLE trail_segments ENABLE ROW LEVEL SECURITY;
+
+-- Public read access
+CREATE POLICY "Allow public read on trail_segments"
+  ON trail_segments FOR SELECT
+  USING (true);
+
+-- Per-segment predictions: array of { index, start_mi, end_mi, condition,
+-- soil_moisture_pct }. The worst section is in factors.worst_section.
+ALTER TABLE trail_predictions
+  ADD COLUMN IF NOT EXISTS segments JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,47 @@
+-- Weather Grid
+-- Weather is fetched per grid cell derived from trail centroids (see
+-- scripts/daily/fetch-weather.ts) instead of 13 named regions, so weather
+-- tables are keyed by cell id
+
+CREATE TABLE IF NOT EXISTS weather_grid_cells (
+  id TEXT PRIMARY KEY,          -- e.g. 'g39.750_-105.250' (south-west corner)
+  lat DECIMAL(10, 6) NOT NULL,  -- fetch point: mean trail centroid in the cell
+  lon DECIMAL(10, 6) NOT NULL,
+  elevation_m INTEGER,          -- from Open-Meteo
+  cell_size_deg DECIMAL(5, 3),
+  trail_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Cells no longer holding trails stay for their history but aren't fetched
+  active BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The old named regions keep their weather history (the snowpack needs a
+-- season of it) as inactive cells
+INSERT INTO weather_grid_cells (id, lat, lon, elevation_m, active) VALUES
+  ('front_range', 39.75, -105.2, 1800, false),
+  ('boulder', 40.015, -105.27, 1655, false),
+  ('golden', 39.75, -105.22, 1730, false),
+  ('denver', 39.74, -104.99, 1609, false),
+  ('colorado_springs', 38.83, -104.82, 1839, false),
+  ('fort_collins', 40.58, -105.08, 1525, false),
+  ('summit_county', 39.6, -106.0, 2926, false),
+  ('leadville', 39.25, -106.29, 3094, false),
+  ('aspen', 39.19, -106.82, 2438, false),
+  ('durango', 37.28, -107.88, 2003, false),
+  ('steamboat', 40.48, -106.83, 2051, false),
+  ('gunnison', 38.55, -106.93, 2347, false),
+  ('telluride', 37.94, -107.81, 2667, false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Key weather by cell (unique constraints and indexes follow the rename)
+ALTER TABLE weather_cache RENAME COLUMN region TO cell_id;
+ALTER TABLE weather_hourly RENAME COLUMN region TO cell_id;
+
+-- Enable RLS
+ALTER TABLE weather_grid_cells ENABLE ROW LEVEL SECURITY;
+
+-- Public read access
+CREATE POLICY "Allow public read on weather_grid_cells"
+  ON weather_grid_cells FOR SELECT
+  USING (true);
@@ -0,0 +1,8 @@
+-- Prediction explanations
+-- { soil, base_dry_hours, modifiers, weather, lapse_rate, threshold }:
+-- each dry-time multiplier with its input, the grid cells the weather was
+-- blended from, the lapse-rate correction and the threshold that decided
+-- the condition (see src/lib/model/explanation.ts)
+
+ALTER TABLE trail_predictions
+  ADD COLUMN IF NOT EXISTS explanation JSONB;
@@ -0,0 +1,35 @@
+-- Trail Prediction History
+-- trail_predictions holds only the latest run. Each run also writes one row
+-- per trail per local day here (later runs that day replace it), with the
+-- weather of the 24 hours before it, so a trail's drying behaviour can be
+-- charted. Rows older than HISTORY_RETENTION_DAYS are pruned by
+-- scripts/daily/generate-predictions.ts.
+
+CREATE TABLE IF NOT EXISTS trail_prediction_history (
+  id SERIAL PRIMARY KEY,
+  trail_id INTEGER NOT NULL REFERENCES trails(id) ON DELETE CASCADE,
+  date DATE NOT NULL,             -- local date of the prediction
+
+  condition TEXT NOT NULL CHECK (condition IN ('rideable', 'likely_rideable', 'likely_muddy', 'muddy', 'snow', 'freeze_thaw')),
+  confidence INTEGER NOT NULL CHECK (confidence >= 0 AND confidence <= 100),
+  soil_moisture_pct INTEGER,
+
+  -- Weather over the 24 hours before the prediction
+  precip_24h_mm DECIMAL(5, 2),
+  temp_max_c DECIMAL(4, 1),
+  temp_min_c DECIMAL(4, 1),
+
+  predicted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(trail_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prediction_history_date ON trail_prediction_history(date);
+
+-- Enable RLS
+ALTER TABLE trail_prediction_history ENABLE ROW LEVEL SECURITY;
+
+-- Public read access
+CREATE POLICY "Allow public read on trail_prediction_history"
+  ON trail_prediction_history FOR SELECT
+  USING (true);
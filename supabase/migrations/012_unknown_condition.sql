@@ -0,0 +1,14 @@
+-- Unknown Condition
+-- Trails whose weather fails the data-quality checks (missing days,
+-- implausible values, stale fetches) are predicted unknown rather than
+-- guessed. Per-cell check results live in the predictions output.
+
+ALTER TABLE trail_predictions DROP CONSTRAINT IF EXISTS trail_predictions_condition_check;
+
+ALTER TABLE trail_predictions ADD CONSTRAINT trail_predictions_condition_check
+  CHECK (condition IN ('rideable', 'likely_rideable', 'likely_muddy', 'muddy', 'snow', 'freeze_thaw', 'unknown'));
+
+ALTER TABLE trail_prediction_history DROP CONSTRAINT IF EXISTS trail_prediction_history_condition_check;
+
+ALTER TABLE trail_prediction_history ADD CONSTRAINT trail_prediction_history_condition_check
+  CHECK (condition IN ('rideable', 'likely_rideable', 'likely_muddy', 'muddy', 'snow', 'freeze_thaw', 'unknown'));
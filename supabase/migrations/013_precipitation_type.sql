@@ -0,0 +1,15 @@
+-- Precipitation Type
+-- Rain, showers and snowfall reported separately by Open-Meteo, so the model
+-- can send snowfall to the snowpack and rain straight to the soil instead of
+-- splitting the total by temperature. precipitation_mm stays the total
+-- (liquid equivalent); the new columns are null where the provider doesn't
+-- report a breakdown.
+
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS rain_mm DECIMAL(5, 2);
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS showers_mm DECIMAL(5, 2);
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS snowfall_cm DECIMAL(5, 2);     -- fresh snow depth
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS precipitation_hours DECIMAL(4, 1);
+
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS rain_mm DECIMAL(5, 2);
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS showers_mm DECIMAL(5, 2);
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS snowfall_cm DECIMAL(5, 2);
@@ -0,0 +1,12 @@
+-- Drying Weather
+-- Sun and wind dominate drying in Colorado. Shortwave radiation and vapour
+-- pressure deficit (from Open-Meteo) feed the evaporative-demand index, with
+-- aspect scaling only its solar term. Null where the provider doesn't
+-- report them; the model then falls back to temperature and humidity.
+
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS shortwave_radiation_mj DECIMAL(5, 2);  -- daily total, MJ/m²
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS wind_speed_mean_kmh DECIMAL(5, 1);
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS vpd_max_kpa DECIMAL(4, 2);
+
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS shortwave_radiation_wm2 DECIMAL(6, 1); -- hourly mean, W/m²
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS vpd_kpa DECIMAL(4, 2);
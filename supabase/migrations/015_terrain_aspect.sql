@@ -0,0 +1,7 @@
+-- Terrain Aspect
+-- Aspect now comes from a DEM along the trail (the way the hillside faces)
+-- instead of the trail's bearing (the way it runs). The full distribution
+-- is kept, since a trail can climb one side of a ridge and descend the other.
+
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS aspect_distribution JSONB;  -- percent of length: {"N": 40.5, "NE": 12.0, ..., "flat": 3.1}
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS slope_mean_deg DECIMAL(4, 1);
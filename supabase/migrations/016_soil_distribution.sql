@@ -0,0 +1,8 @@
+-- Soil Drainage Distribution
+-- Soil is now sampled at points along the trail instead of at its centroid,
+-- which for a multi-part trail can fall off the trail entirely. The percent
+-- of length on each drainage class is kept; soil_drainage_class stays the
+-- dominant one and base_dry_hours the length-weighted mean.
+
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_drainage_distribution JSONB;  -- percent of length: {"Well drained": 72.5, "Poorly drained": 27.5}
+ALTER TABLE trail_segments ADD COLUMN IF NOT EXISTS soil_drainage_distribution JSONB;
@@ -0,0 +1,14 @@
+-- Soil Texture
+-- Drainage class alone doesn't separate clay that turns to "peanut butter"
+-- from decomposed granite. Surface horizon texture and hydrologic group come
+-- from SSURGO chorizon/component; high-clay trails get a stricter dry
+-- threshold and a "do not ride wet" flag. Segments carry clay for the
+-- threshold.
+
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_sand_pct DECIMAL(4, 1);
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_silt_pct DECIMAL(4, 1);
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_clay_pct DECIMAL(4, 1);
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_hydrologic_group TEXT;   -- A, B, C, D or dual (A/D, B/D, C/D)
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS soil_surface_texture TEXT;    -- e.g. "Gravelly sandy loam"
+
+ALTER TABLE trail_segments ADD COLUMN IF NOT EXISTS soil_clay_pct DECIMAL(4, 1);
@@ -0,0 +1,8 @@
+-- Elevation Profile
+-- Profiles are sampled from the DEM (or the USGS point service where no
+-- tiles cover a trail) at the same points as aspect, instead of
+-- interpolated between COTREX min and max. elevation_gain is now cumulative
+-- climbing over every sample rather than max minus min, with loss beside it.
+
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS elevation_profile JSONB;  -- [{"distance_mi": 0.05, "elevation_m": 2210}, ...]
+ALTER TABLE trails ADD COLUMN IF NOT EXISTS elevation_loss INTEGER;   -- meters
@@ -0,0 +1,8 @@
+-- Weather Backfill Stamp
+-- fetched_at is when the daily job last fetched a row, and the data-quality
+-- check reads it to spot stale cells. Backfilled rows get their own stamp
+-- and leave fetched_at as it was (null for rows only ever backfilled), so a
+-- backfill can't hide a failing daily fetch.
+
+ALTER TABLE weather_cache ADD COLUMN IF NOT EXISTS backfilled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE weather_hourly ADD COLUMN IF NOT EXISTS backfilled_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,6 @@
+-- Segment Aspect Distribution
+-- Segments carry their own aspect distribution from the DEM, like trails
+-- (015), so the per-aspect drying weighting reaches segmented trails
+-- instead of stopping at each segment's dominant aspect.
+
+ALTER TABLE trail_segments ADD COLUMN IF NOT EXISTS aspect_distribution JSONB;  -- percent of length: {"N": 40.5, ..., "flat": 3.1}